@@ -1,14 +1,33 @@
-module.exports = {
+const shared = {
     preset: 'ts-jest',
     testEnvironment: 'node',
-    roots: ['<rootDir>/src', '<rootDir>/tests'],
-    testMatch: [
-        '**/__tests__/**/*.ts',
-        '**/?(*.)+(spec|test).ts'
+    moduleFileExtensions: ['ts', 'js', 'json'],
+};
+
+module.exports = {
+    projects: [
+        {
+            ...shared,
+            displayName: 'legacy-decorators',
+            roots: ['<rootDir>/src', '<rootDir>/tests'],
+            testMatch: [
+                '**/__tests__/**/*.ts',
+                '**/?(*.)+(spec|test).ts'
+            ],
+            testPathIgnorePatterns: ['/node_modules/', '\\.standard\\.test\\.ts$'],
+        },
+        {
+            // A separate project, as ts-jest shares one compiler configuration per project
+            ...shared,
+            displayName: 'standard-decorators',
+            roots: ['<rootDir>/tests'],
+            testMatch: ['**/*.standard.test.ts'],
+            transform: {
+                // Compiled with TC39 standard decorators instead of experimentalDecorators
+                '^.+\\.ts$': ['ts-jest', {tsconfig: 'tsconfig.standard-decorators.json'}],
+            },
+        },
     ],
-    transform: {
-        '^.+\\.ts$': 'ts-jest',
-    },
     collectCoverageFrom: [
         'src/**/*.ts',
         '!src/**/*.d.ts',
@@ -19,7 +38,6 @@ module.exports = {
         'lcov',
         'html'
     ],
-    moduleFileExtensions: ['ts', 'js', 'json'],
     verbose: true,
     testTimeout: 10000, // Increased timeout for property-based tests
-};
\ No newline at end of file
+};
@@ -1,19 +1,37 @@
-import { AuditHandle } from './types';
-import { createAuditProxy } from './proxy';
+import { AuditableOptions, AuditFieldOptions, AuditHandle, AuditOptions } from './types';
+import { createAuditProxy, getAuditTarget } from './proxy';
+import { metadataManager } from './metadata';
 
 /**
  * Main Audit function that creates transparent audit-enabled wrappers
  * 
  * @param target - The object to wrap with audit tracking
+ * @param options - Optional tracking behavior for this wrapper, such as deep tracking
  * @returns A wrapped object that behaves identically to the original while tracking changes
  * 
  */
-export function Audit<T extends object>(target: T): T & AuditHandle {
+export function Audit<T extends object>(target: T, options: AuditOptions<T> = {}): T & AuditHandle {
   // Input validation (essential error handling)
   if (!target || typeof target !== 'object') {
     throw new Error('Audit target must be a non-null object');
   }
   
   // Create and return audit proxy (errors propagate naturally)
-  return createAuditProxy(target);
-}
\ No newline at end of file
+  return createAuditProxy(target, options);
+}
+
+/**
+ * Returns the options declared for a field through @AuditField and related decorators
+ * Accepts audited wrappers as well as plain instances
+ */
+export function getAuditFieldOptions(target: object, field: string): Readonly<AuditFieldOptions> {
+  return Object.freeze({ ...metadataManager.getFieldOptions(getAuditTarget(target), field) });
+}
+
+/**
+ * Returns the options declared for the class of an object through @Auditable
+ * Accepts audited wrappers as well as plain instances
+ */
+export function getAuditableOptions(target: object): Readonly<AuditableOptions> {
+  return Object.freeze({ ...metadataManager.getClassOptions(getAuditTarget(target)) });
+}
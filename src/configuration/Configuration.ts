@@ -0,0 +1,37 @@
+import {AuditConfiguration, AuditFieldOptions} from '../types';
+import {metadataManager} from '../metadata';
+
+/**
+ * Configures audit tracking for a class without decorators
+ * Writes into the same metadata as the decorators, so both can be combined, and can be
+ * used for generated or third-party classes that cannot be annotated
+ */
+export function configureAudit<T>(type: abstract new (...args: never[]) => T, configuration: AuditConfiguration<T>): void {
+    if (typeof type !== 'function') {
+        throw new Error('Audit configuration target must be a class');
+    }
+
+    const {fields, ignore, classLevel} = configuration;
+
+    if (Array.isArray(fields)) {
+        for (const field of fields as ReadonlyArray<string>) {
+            metadataManager.setFieldTracking(type, field, true);
+        }
+    } else if (fields) {
+        for (const [field, options] of Object.entries(fields as Record<string, AuditFieldOptions | undefined>)) {
+            metadataManager.setFieldTracking(type, field, true);
+            metadataManager.setFieldOptions(type, field, options ?? {});
+        }
+    }
+
+    for (const field of ignore ?? []) {
+        metadataManager.setFieldIgnored(type, field, true);
+    }
+
+    if (classLevel !== undefined) {
+        metadataManager.setClassLevelAudit(type, classLevel !== false);
+        if (typeof classLevel === 'object') {
+            metadataManager.setClassOptions(type, classLevel);
+        }
+    }
+}
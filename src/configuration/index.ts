@@ -0,0 +1 @@
+export { configureAudit } from './Configuration';
@@ -0,0 +1,58 @@
+import {AsyncLocalStorage} from 'async_hooks';
+import {AuditContext} from '../types';
+import {auditLogger} from '../utils';
+
+/**
+ * Holds the ambient audit context for the current asynchronous execution
+ * Backed by AsyncLocalStorage so the context follows promises, timers and callbacks
+ */
+class AuditContextStore {
+    private storage = new AsyncLocalStorage<Readonly<AuditContext>>();
+
+    /**
+     * Runs a function with the given context merged over the current one
+     * Inner values override outer values for the duration of the call
+     */
+    run<R>(context: AuditContext, fn: () => R): R {
+        const merged = Object.freeze({...this.current(), ...context});
+        return this.storage.run(merged, fn);
+    }
+
+    /**
+     * Returns the context of the current execution, if any
+     * Implements error resilience so change capture is never disrupted
+     */
+    current(): Readonly<AuditContext> | undefined {
+        try {
+            return this.storage.getStore();
+        } catch (error) {
+            auditLogger.error('Failed to read audit context', error);
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Singleton context store for use throughout the library
+ */
+export const auditContextStore = new AuditContextStore();
+
+/**
+ * Runs a function with an ambient audit context
+ * Every change record captured inside the function, including after awaits,
+ * carries the context. Nested calls merge their context over the outer one.
+ *
+ * @param context - Actor, request id and other values describing who is changing data
+ * @param fn - The function to run
+ * @returns The return value of the function
+ */
+export function runWithAuditContext<R>(context: AuditContext, fn: () => R): R {
+    return auditContextStore.run(context, fn);
+}
+
+/**
+ * Returns the ambient audit context of the current execution, if any
+ */
+export function getAuditContext(): Readonly<AuditContext> | undefined {
+    return auditContextStore.current();
+}
@@ -0,0 +1 @@
+export { auditContextStore, runWithAuditContext, getAuditContext } from './AuditContext';
@@ -1,8 +1,85 @@
 import {metadataManager} from '../metadata';
+import {AuditableOptions, AuditFieldOptions, AuditSensitiveOptions, MetadataTarget} from '../types';
 import {auditLogger} from '../utils';
 
-export function AuditField(): PropertyDecorator {
-    return function (target: any, propertyKey: string | symbol | undefined): void {
+/**
+ * Field decorator usable with both legacy (`experimentalDecorators`) and standard decorators
+ */
+export interface AuditPropertyDecorator {
+    (target: object, propertyKey: string | symbol): void;
+
+    (value: undefined, context: ClassFieldDecoratorContext): void;
+}
+
+/**
+ * Class decorator usable with both legacy (`experimentalDecorators`) and standard decorators
+ */
+export interface AuditClassDecorator {
+    <TFunction extends Function>(target: TFunction, context?: ClassDecoratorContext): TFunction;
+}
+
+/**
+ * Checks whether a decorator was called with a standard decorator context
+ * Legacy decorators receive a property key (or nothing) as second argument instead
+ */
+function isStandardContext(value: unknown): value is DecoratorContext {
+    return !!value && typeof value === 'object' && typeof (value as { kind?: unknown }).kind === 'string';
+}
+
+/**
+ * Applies a standard field decorator to the metadata of its class
+ * Uses `context.metadata` where Symbol.metadata is available; otherwise the metadata is
+ * registered on the class when its instances are initialized
+ */
+function applyStandardField(
+    decoratorName: string,
+    context: DecoratorContext,
+    apply: (target: MetadataTarget, field: string) => void
+): void {
+    try {
+        if (context.kind !== 'field' || context.static || typeof context.name !== 'string') {
+            auditLogger.warn(`Unsupported target for ${decoratorName} decorator`, {
+                kind: context.kind,
+                name: String(context.name)
+            });
+            return;
+        }
+
+        const field = context.name;
+        if (context.metadata) {
+            apply(context.metadata, field);
+            return;
+        }
+
+        context.addInitializer(function (this: unknown): void {
+            const constructor: unknown = (this as object | undefined)?.constructor;
+            if (typeof constructor === 'function') {
+                apply(constructor, field);
+            }
+        });
+    } catch (error) {
+        auditLogger.error(`Critical error in ${decoratorName} decorator`, error, {
+            kind: context.kind,
+            name: String(context.name)
+        });
+        // Silently continue - decorator failure should not disrupt class definition
+    }
+}
+
+/**
+ * Property decorator for marking individual fields for audit tracking
+ * Accepts optional per-field options such as deep tracking of nested objects
+ */
+export function AuditField(options: AuditFieldOptions = {}): AuditPropertyDecorator {
+    return function (target: any, propertyKey: string | symbol | DecoratorContext | undefined): void {
+        if (isStandardContext(propertyKey)) {
+            applyStandardField('@AuditField', propertyKey, (metadataTarget, field) => {
+                metadataManager.setFieldTracking(metadataTarget, field, true);
+                metadataManager.setFieldOptions(metadataTarget, field, options);
+            });
+            return;
+        }
+
         try {
             // Input validation
             if (!target) {
@@ -34,6 +111,7 @@ export function AuditField(): PropertyDecorator {
             }
 
             metadataManager.setFieldTracking(constructor, propertyKey, true);
+            metadataManager.setFieldOptions(constructor, propertyKey, options);
 
         } catch (error) {
             auditLogger.error('Critical error in @AuditField decorator', error, {
@@ -46,11 +124,40 @@ export function AuditField(): PropertyDecorator {
     };
 }
 
+/**
+ * Property decorator for tracking a field whose values must never be stored
+ * Change records hold a placeholder, a last-4 mask or a salted hash instead of raw values
+ */
+export function AuditSensitive(options: AuditSensitiveOptions = {}): AuditPropertyDecorator {
+    const fieldOptions: AuditFieldOptions = {redact: options.strategy ?? 'omit'};
+    if (options.salt !== undefined) {
+        fieldOptions.salt = options.salt;
+    }
+    return AuditField(fieldOptions);
+}
+
+/**
+ * Property decorator for tracking a field that may never change once the object is audited
+ * Assignments and deletions are rejected like changes vetoed by a beforeChange guard
+ */
+export function AuditReadonly(): AuditPropertyDecorator {
+    return AuditField({readonly: true});
+}
+
+/**
+ * Property decorator for tracking a field that may be assigned while it is undefined only
+ * Later assignments and deletions are rejected like changes vetoed by a beforeChange guard
+ */
+export function AuditWriteOnce(): AuditPropertyDecorator {
+    return AuditField({writeOnce: true});
+}
+
 /**
  * Class decorator for marking all fields in a class for audit tracking
+ * Accepts optional class-wide options such as a default equality comparator
  */
-export function Auditable(): ClassDecorator {
-    return function <TFunction extends Function>(target: TFunction): TFunction {
+export function Auditable(options: AuditableOptions = {}): AuditClassDecorator {
+    return function <TFunction extends Function>(target: TFunction, context?: ClassDecoratorContext): TFunction {
         try {
             // Input validation
             if (!target || typeof target !== 'function') {
@@ -61,7 +168,10 @@ export function Auditable(): ClassDecorator {
                 return target;
             }
 
-            metadataManager.setClassLevelAudit(target, true);
+            // Standard decorators share the metadata object with the field decorators
+            const metadataTarget = isStandardContext(context) && context.metadata ? context.metadata : target;
+            metadataManager.setClassLevelAudit(metadataTarget, true);
+            metadataManager.setClassOptions(metadataTarget, options);
             return target;
 
         } catch (error) {
@@ -80,8 +190,15 @@ export function Auditable(): ClassDecorator {
  * Property decorator for excluding specific fields from audit tracking
  * Used in conjunction with @Auditable class decorator
  */
-export function AuditIgnore(): PropertyDecorator {
-    return function (target: any, propertyKey: string | symbol | undefined): void {
+export function AuditIgnore(): AuditPropertyDecorator {
+    return function (target: any, propertyKey: string | symbol | DecoratorContext | undefined): void {
+        if (isStandardContext(propertyKey)) {
+            applyStandardField('@AuditIgnore', propertyKey, (metadataTarget, field) => {
+                metadataManager.setFieldIgnored(metadataTarget, field, true);
+            });
+            return;
+        }
+
         try {
             // Input validation
             if (!target) {
@@ -0,0 +1,136 @@
+import {AUDIT_REMOVED, AuditComparator} from '../types';
+import {metadataManager} from '../metadata';
+import {auditLogger, deepEqual} from '../utils';
+
+/**
+ * Comparator as stored in the registry, applied to instances of its registered type
+ */
+type RegisteredComparator = AuditComparator<object>;
+
+/**
+ * Comparators registered by the application, keyed by constructor
+ */
+const typeComparators = new Map<Function, RegisteredComparator>();
+
+/**
+ * Built-in comparators for use with `@AuditField({ equals })`, `@Auditable({ equals })`
+ * and registerAuditComparator
+ */
+export const auditComparators = {
+    /**
+     * Structural equality of Dates, arrays, Maps, Sets, plain objects and class instances
+     */
+    deep: (a: unknown, b: unknown): boolean => deepEqual(a, b),
+
+    /**
+     * Dates are equal when they represent the same time
+     */
+    dateTime: (a: unknown, b: unknown): boolean =>
+        a instanceof Date && b instanceof Date ? Object.is(a.getTime(), b.getTime()) : Object.is(a, b),
+
+    /**
+     * Numbers are equal when they differ by at most `epsilon`
+     */
+    tolerance: (epsilon: number) => (a: unknown, b: unknown): boolean =>
+        typeof a === 'number' && typeof b === 'number' ? Math.abs(a - b) <= epsilon : Object.is(a, b),
+
+    /**
+     * Strings are equal when they only differ in letter case
+     */
+    caseInsensitive: (a: unknown, b: unknown): boolean =>
+        typeof a === 'string' && typeof b === 'string' ? a.toLowerCase() === b.toLowerCase() : Object.is(a, b)
+};
+
+/**
+ * Registers the comparator used for values of a type, including subclasses
+ * Field comparators and class defaults take precedence over comparators registered per type
+ */
+export function registerAuditComparator<V>(type: abstract new (...args: never[]) => V, comparator: AuditComparator<V>): void {
+    typeComparators.set(type, comparator as RegisteredComparator);
+}
+
+/**
+ * Removes the comparator registered for a type
+ */
+export function unregisterAuditComparator(type: Function): void {
+    typeComparators.delete(type);
+}
+
+/**
+ * Checks whether two values of an audited object are equal
+ * Uses the Object.is same-value rule, then the configured comparator for the path
+ */
+export function valuesEqual(target: object, path: readonly unknown[], a: unknown, b: unknown): boolean {
+    return Object.is(a, b) || customEqual(target, path, a, b);
+}
+
+/**
+ * Checks whether a configured comparator considers two values equal
+ * Top-level fields use their @AuditField comparator, then the @Auditable default, then
+ * the comparator registered for the values' type; nested values only use the latter.
+ * Returns false when no comparator applies, or when the comparator throws.
+ */
+export function customEqual(target: object, path: readonly unknown[], a: unknown, b: unknown): boolean {
+    // Removals are never equal to a value
+    if (a === AUDIT_REMOVED || b === AUDIT_REMOVED) {
+        return false;
+    }
+
+    const comparator = findComparator(target, path, a, b);
+    if (!comparator) {
+        return false;
+    }
+
+    try {
+        return comparator(a, b) === true;
+    } catch (error) {
+        auditLogger.error('Error in audit comparator', error, {
+            path: path.map(segment => String(segment)).join('/'),
+            targetConstructor: target?.constructor?.name
+        });
+
+        // Graceful degradation: treat the values as different so the change is recorded
+        return false;
+    }
+}
+
+function findComparator(target: object, path: readonly unknown[], a: unknown, b: unknown): AuditComparator | undefined {
+    const field = path[0];
+    if (path.length === 1 && typeof field === 'string') {
+        const comparator = metadataManager.getFieldOptions(target, field).equals
+            ?? metadataManager.getClassOptions(target).equals;
+        if (comparator) {
+            return comparator;
+        }
+    }
+
+    if (typeComparators.size === 0) {
+        return undefined;
+    }
+    const comparator = findTypeComparator(a);
+    return comparator && comparator === findTypeComparator(b)
+        ? comparator as AuditComparator
+        : undefined;
+}
+
+/**
+ * Finds the comparator registered for the closest type in the value's prototype chain
+ */
+function findTypeComparator(value: unknown): RegisteredComparator | undefined {
+    if (value === null || typeof value !== 'object') {
+        return undefined;
+    }
+
+    let prototype: unknown = Object.getPrototypeOf(value);
+    while (prototype !== null && typeof prototype === 'object') {
+        const constructor: unknown = Reflect.get(prototype, 'constructor');
+        if (typeof constructor === 'function') {
+            const comparator = typeComparators.get(constructor);
+            if (comparator) {
+                return comparator;
+            }
+        }
+        prototype = Object.getPrototypeOf(prototype);
+    }
+    return undefined;
+}
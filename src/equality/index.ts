@@ -0,0 +1 @@
+export { auditComparators, registerAuditComparator, unregisterAuditComparator, valuesEqual, customEqual } from './Comparators';
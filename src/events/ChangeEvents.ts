@@ -0,0 +1,37 @@
+import {AuditGlobalChangeListener, ChangeRecord} from '../types';
+import {auditLogger} from '../utils';
+
+/**
+ * Listeners subscribed to the changes of every audited object
+ */
+const globalListeners = new Set<AuditGlobalChangeListener>();
+
+/**
+ * Subscribes a listener called synchronously with every change captured by any audited object
+ * Listeners of the object itself run first
+ *
+ * @param listener - Receives the change record and the audited object that changed
+ * @returns A function that removes the listener
+ */
+export function onAnyAuditChange(listener: AuditGlobalChangeListener): () => void {
+    globalListeners.add(listener);
+    return () => {
+        globalListeners.delete(listener);
+    };
+}
+
+/**
+ * Passes a captured change to the global listeners
+ * Each listener is isolated: a failing listener is logged and never disrupts business logic
+ */
+export function notifyAnyAuditChange(change: ChangeRecord, audited: object): void {
+    for (const listener of Array.from(globalListeners)) {
+        try {
+            listener(change, audited);
+        } catch (error) {
+            auditLogger.error('Global change listener failed', error, {
+                field: change.field
+            });
+        }
+    }
+}
@@ -0,0 +1,95 @@
+import {AuditChangeStream, AuditChangeStreamOptions, AuditHandle, ChangeRecord} from '../types';
+import {getAuditTarget} from '../proxy';
+import {auditLogger} from '../utils';
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * Implementation of AuditChangeStream backed by an onChange subscription
+ * Changes are handed to waiting consumers directly and buffered otherwise
+ */
+class AuditChangeStreamImpl implements AuditChangeStream {
+    private buffer: ChangeRecord[] = [];
+    private waiting: ((result: IteratorResult<ChangeRecord>) => void)[] = [];
+    private closed = false;
+    private readonly unsubscribe: () => void;
+
+    constructor(audited: AuditHandle, private readonly bufferSize: number) {
+        this.unsubscribe = audited.onChange(change => this.push(change));
+    }
+
+    [Symbol.asyncIterator](): AuditChangeStream {
+        return this;
+    }
+
+    next(): Promise<IteratorResult<ChangeRecord>> {
+        const change = this.buffer.shift();
+        if (change) {
+            return Promise.resolve({value: change, done: false});
+        }
+        if (this.closed) {
+            return Promise.resolve({value: undefined, done: true});
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    /**
+     * Called when a consumer stops iterating early; closes the stream and drops buffered changes
+     */
+    return(): Promise<IteratorResult<ChangeRecord>> {
+        this.close();
+        this.buffer = [];
+        return Promise.resolve({value: undefined, done: true});
+    }
+
+    close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.unsubscribe();
+        for (const resolve of this.waiting) {
+            resolve({value: undefined, done: true});
+        }
+        this.waiting = [];
+    }
+
+    /**
+     * Hands a captured change to the oldest waiting consumer, or buffers it
+     */
+    private push(change: ChangeRecord): void {
+        const resolve = this.waiting.shift();
+        if (resolve) {
+            resolve({value: change, done: false});
+            return;
+        }
+        if (this.buffer.length >= this.bufferSize) {
+            this.buffer.shift();
+            auditLogger.warn('Change stream buffer is full, dropping the oldest change', {
+                bufferSize: this.bufferSize,
+                field: change.field
+            });
+        }
+        this.buffer.push(change);
+    }
+}
+
+/**
+ * Creates an async iterator yielding every change captured by an audited object from now on
+ *
+ * @param audited - An object wrapped with Audit()
+ * @param options - Buffering behavior of the stream
+ * @returns A stream to consume with `for await`; call close() to end it
+ */
+export function changeStream(audited: AuditHandle, options: AuditChangeStreamOptions = {}): AuditChangeStream {
+    if (getAuditTarget(audited) === audited) {
+        throw new Error('Change stream source must be an audited object');
+    }
+
+    const bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    if (!Number.isInteger(bufferSize) || bufferSize < 1) {
+        throw new Error('Change stream buffer size must be a positive integer');
+    }
+
+    return new AuditChangeStreamImpl(audited, bufferSize);
+}
@@ -0,0 +1,2 @@
+export { onAnyAuditChange, notifyAnyAuditChange } from './ChangeEvents';
+export { changeStream } from './ChangeStream';
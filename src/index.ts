@@ -7,13 +7,50 @@
  */
 
 // Main Audit function - primary entry point
-export { Audit } from './audit';
+export { Audit, getAuditFieldOptions, getAuditableOptions } from './audit';
+
+// Access to the audit handle of objects whose own members shadow handle methods
+export { getAuditHandle } from './proxy';
 
 // Decorator functions for marking fields and classes for audit tracking
-export { AuditField, AuditIgnore, Auditable } from './decorators';
+export { AuditField, AuditIgnore, AuditReadonly, AuditSensitive, AuditWriteOnce, Auditable } from './decorators';
+
+// Decorator-free audit configuration for classes that cannot be annotated
+export { configureAudit } from './configuration';
+
+// Guards rejecting changes before they are applied
+export { AuditVetoError } from './veto';
+
+// Unit of work tracking several audited objects together
+export { AuditSession } from './session';
+
+// Marker reported as the new value of removed fields and collection entries
+export { AUDIT_REMOVED } from './types';
+
+// Ambient audit context (actor, request id, ...) captured on every change record
+export { runWithAuditContext, getAuditContext } from './context';
+
+// Change event subscriptions across all audited objects and async change streams
+export { onAnyAuditChange, changeStream } from './events';
+
+// RFC 6902 JSON Patch export and apply, RFC 7386 JSON Merge Patch generation
+export { toJsonPatch, applyJsonPatch, toMergePatch } from './patch';
+
+// Equality comparators deciding whether an assignment is a change
+export { auditComparators, registerAuditComparator, unregisterAuditComparator } from './equality';
+
+// Redaction of sensitive field values in change records
+export { AUDIT_REDACTED, setAuditRedactionSalt } from './redaction';
+
+// JSON-safe serialization of change records
+export { registerAuditSerializer, unregisterAuditSerializer, serializeAuditValue, serializeChanges } from './serialization';
 
 // Public interfaces for TypeScript type safety
-export type { AuditHandle, ChangeRecord } from './types';
+export type { AuditChangeAttempt, AuditChangeGuard, AuditChangeListener, AuditChangeStream, AuditChangeStreamOptions, AuditComparator, AuditConfiguration, AuditContext, AuditEntityChanges, AuditEntityRef, AuditHandle, AuditOptions, AuditSessionOptions, AuditSink, AuditFieldOptions, AuditGlobalChangeListener, AuditableOptions, AuditRedactionStrategy, AuditSensitiveOptions, AuditSensitivity, AuditSnapshot, AuditSerializer, ChangeRecord, JsonPatchOperation, RejectedChange, SerializedChangeRecord } from './types';
 
 // Optional utilities for debugging and development
-export { enableAuditLogging, disableAuditLogging, LogLevel } from './utils/logger';
\ No newline at end of file
+export { enableAuditLogging, disableAuditLogging, LogLevel } from './utils/logger';
+
+// Clock used to timestamp change records, replaceable for deterministic tests
+export { setAuditClock } from './utils/clock';
+export type { AuditClock } from './utils/clock';
\ No newline at end of file
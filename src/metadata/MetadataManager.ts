@@ -1,4 +1,4 @@
-import {AuditMetadata, MetadataManager} from '../types';
+import {AuditableOptions, AuditFieldOptions, AuditMetadata, MetadataManager, MetadataTarget} from '../types';
 import {auditLogger} from '../utils';
 
 /**
@@ -12,9 +12,81 @@ const AUDIT_METADATA_KEY = Symbol('audit:metadata');
 const DEFAULT_METADATA: AuditMetadata = {
     trackedFields: new Set<string>(),
     ignoredFields: new Set<string>(),
-    classLevelAudit: false
+    fieldOptions: new Map<string, AuditFieldOptions>(),
+    classLevelAudit: false,
+    classOptions: {}
 };
 
+/**
+ * Type checks for a set of decorator options, one per supported option
+ */
+type OptionValidators<O> = { [K in keyof Required<O>]: (value: unknown) => boolean };
+
+const isBoolean = (value: unknown): boolean => typeof value === 'boolean';
+const isString = (value: unknown): boolean => typeof value === 'string';
+const isFunction = (value: unknown): boolean => typeof value === 'function';
+const isStringArray = (value: unknown): boolean =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+const isOneOf = (...allowed: unknown[]) => (value: unknown): boolean => allowed.includes(value);
+
+/**
+ * Validators for the options accepted by @AuditField
+ */
+const FIELD_OPTION_VALIDATORS: OptionValidators<AuditFieldOptions> = {
+    label: isString,
+    group: isString,
+    sensitivity: isOneOf('public', 'internal', 'confidential', 'restricted'),
+    deep: isBoolean,
+    serialize: isFunction,
+    equals: isFunction,
+    redact: isOneOf(true, false, 'mask', 'hash', 'omit'),
+    salt: isString,
+    beforeChange: isFunction,
+    readonly: isBoolean,
+    writeOnce: isBoolean
+};
+
+/**
+ * Validators for the options accepted by @Auditable
+ */
+const CLASS_OPTION_VALIDATORS: OptionValidators<AuditableOptions> = {
+    label: isString,
+    include: isStringArray,
+    exclude: isStringArray,
+    equals: isFunction
+};
+
+/**
+ * Checks whether a value can hold metadata: a class constructor, or the metadata object
+ * standard decorators receive
+ */
+function isMetadataTarget(target: unknown): target is MetadataTarget {
+    return !!target && (typeof target === 'function' || typeof target === 'object');
+}
+
+/**
+ * Describes a metadata target for log messages
+ */
+function metadataTargetName(target: MetadataTarget): string {
+    if (typeof target === 'function') {
+        return target.name;
+    }
+    return target ? 'decorator metadata' : String(target);
+}
+
+/**
+ * Returns the Symbol.metadata object standard decorators attached to a class, if any
+ */
+function standardMetadataOf(constructor: Function): Record<PropertyKey, unknown> | undefined {
+    const metadataKey: unknown = Reflect.get(Symbol, 'metadata');
+    if (typeof metadataKey !== 'symbol') {
+        return undefined;
+    }
+
+    const metadata: unknown = Reflect.get(constructor, metadataKey);
+    return metadata && typeof metadata === 'object' ? metadata as Record<PropertyKey, unknown> : undefined;
+}
+
 /**
  * Implementation of MetadataManager for storing and retrieving decorator metadata
  * Uses class-level static metadata storage as specified in requirements
@@ -25,8 +97,9 @@ export class MetadataManagerImpl implements MetadataManager {
      * Gets the set of tracked fields for a given object instance
      * Combines class-level audit settings with field-level decorators
      * Implements graceful degradation when metadata is missing or invalid
+     * `classLevel` overrides whether the class tracks every field
      */
-    getTrackedFields(target: object): Set<string> {
+    getTrackedFields(target: object, classLevel?: boolean): Set<string> {
         try {
             // Validate input target
             if (!target || typeof target !== 'object') {
@@ -47,13 +120,17 @@ export class MetadataManagerImpl implements MetadataManager {
             const metadata = this.getMetadata(constructor);
             const trackedFields = new Set<string>();
 
-            // If class-level audit is enabled, track all fields except ignored ones
-            if (metadata.classLevelAudit) {
+            const {include, exclude} = metadata.classOptions;
+            const isIgnored = (field: string): boolean =>
+                metadata.ignoredFields.has(field) || exclude?.includes(field) === true;
+
+            // If class-level audit is enabled, track all fields (or the included ones) except ignored ones
+            if (classLevel ?? metadata.classLevelAudit) {
                 try {
                     // Get all enumerable properties of the object
-                    const allFields = Object.keys(target);
+                    const allFields = include ?? Object.keys(target);
                     for (const field of allFields) {
-                        if (!metadata.ignoredFields.has(field)) {
+                        if (!isIgnored(field)) {
                             trackedFields.add(field);
                         }
                     }
@@ -68,7 +145,7 @@ export class MetadataManagerImpl implements MetadataManager {
             // Add explicitly tracked fields from @AuditField decorators
             try {
                 for (const field of metadata.trackedFields) {
-                    if (!metadata.ignoredFields.has(field)) {
+                    if (!isIgnored(field)) {
                         trackedFields.add(field);
                     }
                 }
@@ -96,7 +173,7 @@ export class MetadataManagerImpl implements MetadataManager {
      * Checks if a specific field should be tracked for the given object
      * Implements error resilience to never disrupt business logic
      */
-    isFieldTracked(target: object, field: string): boolean {
+    isFieldTracked(target: object, field: string, classLevel?: boolean): boolean {
         try {
             // Input validation
             if (!target || typeof target !== 'object' || typeof field !== 'string') {
@@ -108,7 +185,7 @@ export class MetadataManagerImpl implements MetadataManager {
                 return false;
             }
 
-            const trackedFields = this.getTrackedFields(target);
+            const trackedFields = this.getTrackedFields(target, classLevel);
             return trackedFields.has(field);
 
         } catch (error) {
@@ -128,10 +205,10 @@ export class MetadataManagerImpl implements MetadataManager {
      * Used by @AuditField decorator
      * Implements error resilience to never disrupt decorator application
      */
-    setFieldTracking(target: Function, field: string, track: boolean): void {
+    setFieldTracking(target: MetadataTarget, field: string, track: boolean): void {
         try {
             // Input validation
-            if (!target || typeof target !== 'function') {
+            if (!isMetadataTarget(target)) {
                 auditLogger.error('Invalid target function for setFieldTracking', undefined, {
                     targetType: typeof target,
                     field,
@@ -142,7 +219,7 @@ export class MetadataManagerImpl implements MetadataManager {
 
             if (typeof field !== 'string' || field.length === 0) {
                 auditLogger.error('Invalid field name for setFieldTracking', undefined, {
-                    targetName: target.name,
+                    targetName: metadataTargetName(target),
                     fieldType: typeof field,
                     field,
                     track
@@ -160,7 +237,7 @@ export class MetadataManagerImpl implements MetadataManager {
 
         } catch (error) {
             auditLogger.error('Failed to set field tracking', error, {
-                targetName: target?.name,
+                targetName: metadataTargetName(target),
                 field,
                 track
             });
@@ -173,10 +250,10 @@ export class MetadataManagerImpl implements MetadataManager {
      * Used by @Audit decorator
      * Implements error resilience to never disrupt decorator application
      */
-    setClassLevelAudit(target: Function, enabled: boolean): void {
+    setClassLevelAudit(target: MetadataTarget, enabled: boolean): void {
         try {
             // Input validation
-            if (!target || typeof target !== 'function') {
+            if (!isMetadataTarget(target)) {
                 auditLogger.error('Invalid target function for setClassLevelAudit', undefined, {
                     targetType: typeof target,
                     enabled
@@ -189,7 +266,7 @@ export class MetadataManagerImpl implements MetadataManager {
 
         } catch (error) {
             auditLogger.error('Failed to set class-level audit', error, {
-                targetName: target?.name,
+                targetName: metadataTargetName(target),
                 enabled
             });
             // Silently continue - decorator application should not fail
@@ -201,10 +278,10 @@ export class MetadataManagerImpl implements MetadataManager {
      * Used by @AuditIgnore decorator
      * Implements error resilience to never disrupt decorator application
      */
-    setFieldIgnored(target: Function, field: string, ignored: boolean): void {
+    setFieldIgnored(target: MetadataTarget, field: string, ignored: boolean): void {
         try {
             // Input validation
-            if (!target || typeof target !== 'function') {
+            if (!isMetadataTarget(target)) {
                 auditLogger.error('Invalid target function for setFieldIgnored', undefined, {
                     targetType: typeof target,
                     field,
@@ -215,7 +292,7 @@ export class MetadataManagerImpl implements MetadataManager {
 
             if (typeof field !== 'string' || field.length === 0) {
                 auditLogger.error('Invalid field name for setFieldIgnored', undefined, {
-                    targetName: target.name,
+                    targetName: metadataTargetName(target),
                     fieldType: typeof field,
                     field,
                     ignored
@@ -233,7 +310,7 @@ export class MetadataManagerImpl implements MetadataManager {
 
         } catch (error) {
             auditLogger.error('Failed to set field ignored status', error, {
-                targetName: target?.name,
+                targetName: metadataTargetName(target),
                 field,
                 ignored
             });
@@ -241,6 +318,127 @@ export class MetadataManagerImpl implements MetadataManager {
         }
     }
 
+    /**
+     * Gets the options declared for a field through @AuditField
+     * Returns an empty options object when the field has no declared options
+     */
+    getFieldOptions(target: object, field: string): AuditFieldOptions {
+        try {
+            if (!target || typeof target !== 'object' || typeof field !== 'string') {
+                return {};
+            }
+
+            const constructor = target.constructor as Function;
+            if (!constructor) {
+                return {};
+            }
+
+            return this.getMetadata(constructor).fieldOptions.get(field) ?? {};
+
+        } catch (error) {
+            auditLogger.error('Error retrieving field options', error, {
+                field,
+                targetConstructor: target?.constructor?.name
+            });
+
+            // Graceful degradation: behave as if no options were declared
+            return {};
+        }
+    }
+
+    /**
+     * Stores the options declared for a field, merged over options declared earlier
+     * Unknown options and options of the wrong type are logged and dropped
+     * Used by @AuditField and @AuditSensitive decorators
+     * Implements error resilience to never disrupt decorator application
+     */
+    setFieldOptions(target: MetadataTarget, field: string, options: AuditFieldOptions): void {
+        try {
+            // Input validation
+            if (!isMetadataTarget(target)) {
+                auditLogger.error('Invalid target function for setFieldOptions', undefined, {
+                    targetType: typeof target,
+                    field
+                });
+                return;
+            }
+
+            if (typeof field !== 'string' || field.length === 0) {
+                auditLogger.error('Invalid field name for setFieldOptions', undefined, {
+                    targetName: metadataTargetName(target),
+                    fieldType: typeof field,
+                    field
+                });
+                return;
+            }
+
+            const validOptions = this.validateOptions(options, FIELD_OPTION_VALIDATORS, `${metadataTargetName(target)}.${field}`);
+            const metadata = this.getOrCreateMetadata(target);
+            metadata.fieldOptions.set(field, {...metadata.fieldOptions.get(field), ...validOptions});
+
+        } catch (error) {
+            auditLogger.error('Failed to set field options', error, {
+                targetName: metadataTargetName(target),
+                field
+            });
+            // Silently continue - decorator application should not fail
+        }
+    }
+
+    /**
+     * Gets the options declared for a class through @Auditable
+     * Returns an empty options object when the class has no declared options
+     */
+    getClassOptions(target: object): AuditableOptions {
+        try {
+            if (!target || typeof target !== 'object') {
+                return {};
+            }
+
+            const constructor = target.constructor as Function;
+            if (!constructor) {
+                return {};
+            }
+
+            return this.getMetadata(constructor).classOptions;
+
+        } catch (error) {
+            auditLogger.error('Error retrieving class options', error, {
+                targetConstructor: target?.constructor?.name
+            });
+
+            // Graceful degradation: behave as if no options were declared
+            return {};
+        }
+    }
+
+    /**
+     * Stores the options declared for a class
+     * Unknown options and options of the wrong type are logged and dropped
+     * Used by @Auditable decorator
+     * Implements error resilience to never disrupt decorator application
+     */
+    setClassOptions(target: MetadataTarget, options: AuditableOptions): void {
+        try {
+            // Input validation
+            if (!isMetadataTarget(target)) {
+                auditLogger.error('Invalid target function for setClassOptions', undefined, {
+                    targetType: typeof target
+                });
+                return;
+            }
+
+            const metadata = this.getOrCreateMetadata(target);
+            metadata.classOptions = this.validateOptions(options, CLASS_OPTION_VALIDATORS, metadataTargetName(target));
+
+        } catch (error) {
+            auditLogger.error('Failed to set class options', error, {
+                targetName: metadataTargetName(target)
+            });
+            // Silently continue - decorator application should not fail
+        }
+    }
+
     /**
      * Retrieves metadata for a class constructor, returning default if none exists
      * Implements graceful degradation for corrupted or invalid metadata
@@ -254,7 +452,8 @@ export class MetadataManagerImpl implements MetadataManager {
                 return {...DEFAULT_METADATA};
             }
 
-            const metadata = (target as any)[AUDIT_METADATA_KEY];
+            // Standard decorators store metadata on the class's Symbol.metadata object instead
+            const metadata = (target as any)[AUDIT_METADATA_KEY] ?? standardMetadataOf(target)?.[AUDIT_METADATA_KEY];
 
             if (!metadata) {
                 return {...DEFAULT_METADATA};
@@ -283,9 +482,9 @@ export class MetadataManagerImpl implements MetadataManager {
      * Gets or creates metadata for a class constructor
      * Implements error resilience for metadata creation and storage
      */
-    private getOrCreateMetadata(target: Function): AuditMetadata {
+    private getOrCreateMetadata(target: MetadataTarget): AuditMetadata {
         try {
-            if (!target || typeof target !== 'function') {
+            if (!isMetadataTarget(target)) {
                 auditLogger.error('Invalid target function for getOrCreateMetadata', undefined, {
                     targetType: typeof target
                 });
@@ -293,7 +492,9 @@ export class MetadataManagerImpl implements MetadataManager {
                 return {
                     trackedFields: new Set<string>(),
                     ignoredFields: new Set<string>(),
-                    classLevelAudit: false
+                    fieldOptions: new Map<string, AuditFieldOptions>(),
+                    classLevelAudit: false,
+                    classOptions: {}
                 };
             }
 
@@ -302,7 +503,7 @@ export class MetadataManagerImpl implements MetadataManager {
             if (!metadata || !this.isValidMetadata(metadata)) {
                 if (metadata && !this.isValidMetadata(metadata)) {
                     auditLogger.warn('Corrupted metadata detected, recreating', {
-                        targetName: target.name,
+                        targetName: metadataTargetName(target),
                         metadata: typeof metadata
                     });
                 }
@@ -310,7 +511,9 @@ export class MetadataManagerImpl implements MetadataManager {
                 metadata = {
                     trackedFields: new Set<string>(),
                     ignoredFields: new Set<string>(),
-                    classLevelAudit: false
+                    fieldOptions: new Map<string, AuditFieldOptions>(),
+                    classLevelAudit: false,
+                    classOptions: {}
                 };
 
                 try {
@@ -318,7 +521,7 @@ export class MetadataManagerImpl implements MetadataManager {
                     (target as any)[AUDIT_METADATA_KEY] = metadata;
                 } catch (storageError) {
                     auditLogger.error('Failed to store metadata on constructor', storageError, {
-                        targetName: target.name
+                        targetName: metadataTargetName(target)
                     });
                     // Return the metadata anyway, even if we can't store it
                 }
@@ -328,20 +531,24 @@ export class MetadataManagerImpl implements MetadataManager {
 
         } catch (error) {
             auditLogger.error('Critical error in getOrCreateMetadata', error, {
-                targetName: target?.name
+                targetName: metadataTargetName(target)
             });
 
             // Return a safe default metadata object
             return {
                 trackedFields: new Set<string>(),
                 ignoredFields: new Set<string>(),
-                classLevelAudit: false
+                fieldOptions: new Map<string, AuditFieldOptions>(),
+                classLevelAudit: false,
+                classOptions: {}
             };
         }
     }
 
     /**
      * Validates metadata structure to ensure it's not corrupted
+     * Runs on every lookup, so options are not re-validated here; they are validated
+     * once when they are stored
      */
     private isValidMetadata(metadata: any): metadata is AuditMetadata {
         try {
@@ -350,12 +557,49 @@ export class MetadataManagerImpl implements MetadataManager {
                 typeof metadata === 'object' &&
                 metadata.trackedFields instanceof Set &&
                 metadata.ignoredFields instanceof Set &&
-                typeof metadata.classLevelAudit === 'boolean'
+                metadata.fieldOptions instanceof Map &&
+                typeof metadata.classLevelAudit === 'boolean' &&
+                metadata.classOptions !== null &&
+                typeof metadata.classOptions === 'object'
             );
         } catch (error) {
             return false;
         }
     }
+
+    /**
+     * Copies the known options of the expected types, logging the ones that are dropped
+     */
+    private validateOptions<O extends object>(options: O, validators: OptionValidators<O>, owner: string): O {
+        const valid: Partial<O> = {};
+        if (!options || typeof options !== 'object') {
+            auditLogger.warn('Invalid audit options, ignoring them', {
+                owner,
+                optionsType: typeof options
+            });
+            return valid as O;
+        }
+
+        for (const [key, value] of Object.entries(options)) {
+            if (value === undefined) {
+                continue;
+            }
+            if (!Object.prototype.hasOwnProperty.call(validators, key)) {
+                auditLogger.warn('Unknown audit option, ignoring it', {owner, option: key});
+                continue;
+            }
+            if (!validators[key as keyof O](value)) {
+                auditLogger.warn('Invalid value for audit option, ignoring it', {
+                    owner,
+                    option: key,
+                    valueType: typeof value
+                });
+                continue;
+            }
+            valid[key as keyof O] = value as O[keyof O];
+        }
+        return valid as O;
+    }
 }
 
 /**
@@ -0,0 +1,191 @@
+import {AUDIT_REMOVED, ChangeRecord, JsonPatchOperation} from '../types';
+import {isRedactedRecord} from '../redaction';
+import {deepClone, deepEqual} from '../utils';
+
+/**
+ * Converts change records into RFC 6902 JSON Patch operations
+ * Removals become `remove`, changes without a previous value become `add` and every
+ * other change becomes `replace`. Paths are JSON Pointers built from the record paths.
+ * Redacted changes are left out, so applying the patch never overwrites a secret with
+ * its placeholder, mask or hash.
+ */
+export function toJsonPatch(changes: readonly ChangeRecord[]): JsonPatchOperation[] {
+    return changes.filter(change => !isRedactedRecord(change)).map((change): JsonPatchOperation => {
+        const path = toJsonPointer(change.path);
+
+        if (change.newValue === AUDIT_REMOVED) {
+            return {op: 'remove', path};
+        }
+        if (change.oldValue === undefined) {
+            return {op: 'add', path, value: change.newValue};
+        }
+        return {op: 'replace', path, value: change.newValue};
+    });
+}
+
+/**
+ * Applies RFC 6902 JSON Patch operations to an object
+ * When the target is an audited object, every write goes through the audit proxy and is
+ * tracked like any other change. Operations are applied in order; an invalid operation
+ * throws and leaves the operations before it applied.
+ */
+export function applyJsonPatch<T extends object>(target: T, patch: readonly JsonPatchOperation[]): T {
+    if (!target || typeof target !== 'object') {
+        throw new Error('JSON Patch target must be a non-null object');
+    }
+
+    for (const operation of patch) {
+        applyOperation(target, operation);
+    }
+    return target;
+}
+
+/**
+ * Builds a JSON Pointer from record path segments
+ */
+export function toJsonPointer(path: readonly unknown[]): string {
+    return path.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+/**
+ * Splits a JSON Pointer into unescaped path segments
+ */
+function parseJsonPointer(pointer: string): string[] {
+    if (pointer === '') {
+        return [];
+    }
+    if (!pointer.startsWith('/')) {
+        throw new Error(`Invalid JSON Pointer: ${pointer}`);
+    }
+    return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function applyOperation(root: object, operation: JsonPatchOperation): void {
+    switch (operation.op) {
+        case 'add':
+            addValue(root, operation.path, deepClone(operation.value));
+            return;
+        case 'replace':
+            replaceValue(root, operation.path, deepClone(operation.value));
+            return;
+        case 'remove':
+            removeValue(root, operation.path);
+            return;
+        case 'test':
+            if (!deepEqual(readValue(root, operation.path), operation.value)) {
+                throw new Error(`JSON Patch test failed at ${operation.path}`);
+            }
+            return;
+        case 'move': {
+            const value = readValue(root, operation.from);
+            removeValue(root, operation.from);
+            addValue(root, operation.path, value);
+            return;
+        }
+        case 'copy':
+            addValue(root, operation.path, deepClone(readValue(root, operation.from)));
+            return;
+        default:
+            throw new Error(`Unsupported JSON Patch operation: ${(operation as { op: unknown }).op}`);
+    }
+}
+
+/**
+ * Resolves the parent container of a pointer and the final segment within it
+ */
+function resolveParent(root: object, pointer: string): { parent: object; key: string } {
+    const segments = parseJsonPointer(pointer);
+    const key = segments.pop();
+    if (key === undefined) {
+        throw new Error('JSON Patch operations on the whole document are not supported');
+    }
+
+    let parent: unknown = root;
+    for (const segment of segments) {
+        parent = getChild(parent, segment, pointer);
+    }
+    if (parent === null || typeof parent !== 'object') {
+        throw new Error(`JSON Patch path not found: ${pointer}`);
+    }
+    return {parent, key};
+}
+
+function getChild(container: unknown, key: string, pointer: string): unknown {
+    if (container instanceof Map) {
+        return container.get(key);
+    }
+    if (container !== null && typeof container === 'object' && key in container) {
+        return Reflect.get(container, key);
+    }
+    throw new Error(`JSON Patch path not found: ${pointer}`);
+}
+
+function readValue(root: object, pointer: string): unknown {
+    const {parent, key} = resolveParent(root, pointer);
+    if (parent instanceof Set) {
+        if (!parent.has(key)) {
+            throw new Error(`JSON Patch path not found: ${pointer}`);
+        }
+        return key;
+    }
+    return getChild(parent, key, pointer);
+}
+
+function addValue(root: object, pointer: string, value: unknown): void {
+    const {parent, key} = resolveParent(root, pointer);
+
+    if (Array.isArray(parent)) {
+        if (key === '-') {
+            parent.push(value);
+        } else {
+            parent.splice(toArrayIndex(key, parent.length, pointer), 0, value);
+        }
+    } else if (parent instanceof Map) {
+        parent.set(key, value);
+    } else if (parent instanceof Set) {
+        parent.add(value);
+    } else {
+        Reflect.set(parent, key, value);
+    }
+}
+
+function replaceValue(root: object, pointer: string, value: unknown): void {
+    const {parent, key} = resolveParent(root, pointer);
+
+    if (Array.isArray(parent)) {
+        parent[toArrayIndex(key, parent.length - 1, pointer)] = value;
+    } else if (parent instanceof Map) {
+        if (!parent.has(key)) {
+            throw new Error(`JSON Patch path not found: ${pointer}`);
+        }
+        parent.set(key, value);
+    } else if (parent instanceof Set) {
+        throw new Error(`JSON Patch cannot replace a Set member: ${pointer}`);
+    } else {
+        getChild(parent, key, pointer);
+        Reflect.set(parent, key, value);
+    }
+}
+
+function removeValue(root: object, pointer: string): void {
+    const {parent, key} = resolveParent(root, pointer);
+
+    if (Array.isArray(parent)) {
+        parent.splice(toArrayIndex(key, parent.length - 1, pointer), 1);
+    } else if (parent instanceof Map || parent instanceof Set) {
+        if (!parent.delete(key)) {
+            throw new Error(`JSON Patch path not found: ${pointer}`);
+        }
+    } else {
+        getChild(parent, key, pointer);
+        Reflect.deleteProperty(parent, key);
+    }
+}
+
+function toArrayIndex(key: string, max: number, pointer: string): number {
+    const index = /^(0|[1-9]\d*)$/.test(key) ? Number(key) : NaN;
+    if (Number.isNaN(index) || index > max) {
+        throw new Error(`Invalid JSON Patch array index: ${pointer}`);
+    }
+    return index;
+}
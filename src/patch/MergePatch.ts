@@ -0,0 +1,152 @@
+import {AUDIT_REMOVED, AuditHandle} from '../types';
+import {isRedactedRecord} from '../redaction';
+import {deepEqual, isPlainObject} from '../utils';
+
+/**
+ * Builds an RFC 7386 JSON Merge Patch document from an audited object's collapsed changes
+ * Deep paths become nested members and removals become `null`. Arrays and Sets cannot be
+ * patched partially, so a change inside one emits its whole current value; Maps are
+ * emitted as objects keyed by entry.
+ */
+export function toMergePatch<T extends object>(audited: T & AuditHandle): Record<string, unknown> {
+    const document: Record<string, unknown> = {};
+
+    for (const change of audited.changes()) {
+        // Redacted changes are left out, so the patch never carries a secret or its placeholder
+        if (isRedactedRecord(change)) {
+            continue;
+        }
+
+        const location = patchLocation(audited, change.path);
+        if (!location) {
+            continue;
+        }
+
+        let value: unknown;
+        if (location.whole) {
+            value = toJsonValue(location.value, new WeakSet());
+        } else if (change.newValue === AUDIT_REMOVED) {
+            value = null;
+        } else if (isPlainObject(change.oldValue) && isPlainObject(change.newValue)) {
+            value = diffObjects(change.oldValue, change.newValue, new WeakSet());
+        } else {
+            value = toJsonValue(change.newValue, new WeakSet());
+        }
+
+        mergeInto(document, location.path, value);
+    }
+
+    return document;
+}
+
+/**
+ * Finds where a change lands in the merge patch document
+ * A path that crosses an array or a Set is cut at that container, whose current value
+ * is then emitted in full. Returns undefined when the path no longer exists.
+ */
+function patchLocation(audited: object, path: readonly unknown[]):
+    { path: string[]; whole: boolean; value?: unknown } | undefined {
+    const segments = path.map(segment => String(segment));
+    let node: unknown = audited;
+
+    for (let index = 0; index < segments.length - 1; index++) {
+        node = readChild(node, segments[index] as string);
+        if (Array.isArray(node) || node instanceof Set) {
+            return {path: segments.slice(0, index + 1), whole: true, value: node};
+        }
+        if (node === null || typeof node !== 'object') {
+            return undefined;
+        }
+    }
+    return {path: segments, whole: false};
+}
+
+function readChild(node: unknown, key: string): unknown {
+    if (node instanceof Map) {
+        return node.get(key);
+    }
+    return node !== null && typeof node === 'object' ? Reflect.get(node, key) : undefined;
+}
+
+/**
+ * Writes a value into the patch document, creating intermediate members
+ * Members already covered by a whole value from an earlier change are left alone.
+ */
+function mergeInto(document: Record<string, unknown>, path: string[], value: unknown): void {
+    let node = document;
+
+    for (const segment of path.slice(0, -1)) {
+        const child = node[segment];
+        if (child === undefined) {
+            const created: Record<string, unknown> = {};
+            node[segment] = created;
+            node = created;
+        } else if (isPlainObject(child)) {
+            node = child;
+        } else {
+            return;
+        }
+    }
+
+    const last = path[path.length - 1];
+    if (last !== undefined) {
+        node[last] = value;
+    }
+}
+
+/**
+ * Computes the merge patch turning one plain object into another
+ */
+function diffObjects(oldValue: Record<string, unknown>, newValue: Record<string, unknown>, seen: WeakSet<object>): Record<string, unknown> {
+    const patch: Record<string, unknown> = {};
+
+    for (const key of Object.keys(oldValue)) {
+        if (!Object.prototype.hasOwnProperty.call(newValue, key)) {
+            patch[key] = null;
+        }
+    }
+
+    for (const key of Object.keys(newValue)) {
+        const before = oldValue[key];
+        const after = newValue[key];
+        if (Object.prototype.hasOwnProperty.call(oldValue, key) && deepEqual(before, after)) {
+            continue;
+        }
+        patch[key] = isPlainObject(before) && isPlainObject(after)
+            ? diffObjects(before, after, seen)
+            : toJsonValue(after, seen);
+    }
+
+    return patch;
+}
+
+/**
+ * Converts Maps to objects and Sets to arrays so the document is JSON-serializable
+ */
+function toJsonValue(value: unknown, seen: WeakSet<object>): unknown {
+    if (value === AUDIT_REMOVED) {
+        return null;
+    }
+    if (!Array.isArray(value) && !(value instanceof Map) && !(value instanceof Set) && !isPlainObject(value)) {
+        return value;
+    }
+    if (seen.has(value)) {
+        throw new Error('Cannot build a merge patch from a circular value');
+    }
+    seen.add(value);
+
+    let result: unknown;
+    if (Array.isArray(value) || value instanceof Set) {
+        result = Array.from(value, item => toJsonValue(item, seen));
+    } else {
+        const entries: Iterable<[unknown, unknown]> = value instanceof Map ? value.entries() : Object.entries(value);
+        const object: Record<string, unknown> = {};
+        for (const [key, item] of entries) {
+            object[String(key)] = toJsonValue(item, seen);
+        }
+        result = object;
+    }
+
+    seen.delete(value);
+    return result;
+}
@@ -0,0 +1,2 @@
+export { toJsonPatch, applyJsonPatch, toJsonPointer } from './JsonPatch';
+export { toMergePatch } from './MergePatch';
@@ -0,0 +1,111 @@
+import {AUDIT_REMOVED, ChangeRecord} from '../types';
+import {auditLogger, isArraySnapshot} from '../utils';
+
+/**
+ * Replays the old values of change records onto the raw object, last record first
+ * Writes bypass the audit proxy so reverting never produces new change records
+ */
+export function revertRecords(root: object, records: readonly ChangeRecord[]): void {
+    for (let i = records.length - 1; i >= 0; i--) {
+        const record = records[i]!;
+        if (!applyRecordedValue(root, record.path, record.oldValue)) {
+            auditLogger.warn('Could not revert change, location no longer exists', {
+                field: record.field
+            });
+        }
+    }
+}
+
+/**
+ * Reapplies the new values of change records onto the raw object, first record first
+ * Writes bypass the audit proxy so replaying never produces new change records
+ */
+export function replayRecords(root: object, records: readonly ChangeRecord[]): void {
+    for (const record of records) {
+        if (!applyRecordedValue(root, record.path, record.newValue)) {
+            auditLogger.warn('Could not replay change, location no longer exists', {
+                field: record.field
+            });
+        }
+    }
+}
+
+/**
+ * Writes a recorded value back to the location described by a change record path
+ * Handles object properties, array elements, Map entries and Set members, treats
+ * AUDIT_REMOVED as a removal and restores array snapshots into the live array
+ * Returns false if the location could not be resolved
+ */
+export function applyRecordedValue(root: object, path: readonly unknown[], value: unknown): boolean {
+    try {
+        if (path.length === 0) {
+            return false;
+        }
+
+        const container = resolveContainer(root, path);
+        if (container === undefined) {
+            return false;
+        }
+
+        const key = path[path.length - 1];
+        const removed = value === AUDIT_REMOVED;
+
+        // Collection entries use undefined for the absent side of an addition
+        if (container instanceof Set) {
+            if (removed || value === undefined) {
+                container.delete(key);
+            } else {
+                container.add(value);
+            }
+            return true;
+        }
+        if (container instanceof Map) {
+            if (removed || value === undefined) {
+                container.delete(key);
+            } else {
+                container.set(key, value);
+            }
+            return true;
+        }
+
+        const property = key as PropertyKey;
+        if (removed) {
+            return Reflect.deleteProperty(container, property);
+        }
+
+        // Restore in-place array mutations without replacing the live array
+        const current = Reflect.get(container, property);
+        if (isArraySnapshot(value) && Array.isArray(current)) {
+            current.splice(0, current.length, ...value);
+            return true;
+        }
+
+        return Reflect.set(container, property, value);
+
+    } catch (error) {
+        auditLogger.error('Failed to apply recorded value', error, {
+            pathLength: path.length
+        });
+        return false;
+    }
+}
+
+/**
+ * Walks a change record path down to the object holding its last segment
+ */
+function resolveContainer(root: object, path: readonly unknown[]): object | undefined {
+    let current: unknown = root;
+
+    for (let i = 0; i < path.length - 1; i++) {
+        if (current === null || typeof current !== 'object') {
+            return undefined;
+        }
+
+        const segment = path[i];
+        current = current instanceof Map
+            ? current.get(segment)
+            : Reflect.get(current, segment as PropertyKey);
+    }
+
+    return current !== null && typeof current === 'object' ? current : undefined;
+}
@@ -0,0 +1,571 @@
+import {AUDIT_REMOVED, ChangeTracker} from '../types';
+import {haveSameElements, isPlainObject, snapshotArray} from '../utils';
+
+/**
+ * State shared between a root audit proxy and the nested proxies it hands out
+ */
+export interface NestedProxyScope {
+    tracker: ChangeTracker;
+    cache: WeakMap<object, Map<string, object>>;
+    /**
+     * Decides whether a value at a path is unchanged, so no change is recorded
+     */
+    equals: (path: readonly unknown[], a: unknown, b: unknown) => boolean;
+    /**
+     * Runs the guards of the top-level field before a nested mutation is applied
+     * Returns false when the mutation must be skipped; throws when the rejection is thrown
+     */
+    allowChange: (location: FieldLocation, oldValue: unknown, newValue: unknown) => boolean;
+}
+
+/**
+ * Location of a tracked value: the formatted field path used in change records
+ * and the structured path segments used to navigate back to the value
+ */
+export interface FieldLocation {
+    field: string;
+    path: readonly unknown[];
+}
+
+/**
+ * Maps every nested proxy back to the raw object it wraps
+ */
+const nestedTargets = new WeakMap<object, object>();
+
+/**
+ * Location of the top-level field of an audited object
+ */
+export function fieldLocation(field: string): FieldLocation {
+    return {field, path: [field]};
+}
+
+/**
+ * Returns the raw object behind a nested proxy, or the value itself
+ * Prevents nested proxies from leaking into the wrapped object graph on assignment
+ */
+export function unwrapNested<V>(value: V): V {
+    if (value !== null && typeof value === 'object') {
+        const target = nestedTargets.get(value);
+        if (target) {
+            return target as V;
+        }
+    }
+    return value;
+}
+
+/**
+ * Tracking wrapper for a Map or Set method, invoked with the raw collection and the proxy
+ */
+type CollectionMethod<C> = (collection: C, receiver: object, ...args: unknown[]) => unknown;
+
+/**
+ * Array methods that mutate the array in place
+ */
+const ARRAY_MUTATORS = new Set<PropertyKey>([
+    'push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'copyWithin'
+]);
+
+/**
+ * Array methods that pass each element to a callback
+ */
+const ARRAY_CALLBACK_METHODS = new Set<PropertyKey>([
+    'every', 'filter', 'find', 'findIndex', 'findLast', 'findLastIndex', 'flatMap', 'forEach', 'map', 'some'
+]);
+
+/**
+ * Array methods that pass each element to a reducer callback
+ */
+const ARRAY_REDUCERS = new Set<PropertyKey>(['reduce', 'reduceRight']);
+
+/**
+ * Array methods that return an iterator over the elements
+ */
+const ARRAY_ITERATORS = new Set<PropertyKey>([Symbol.iterator, 'values', 'entries']);
+
+/**
+ * Checks whether a value read from a tracked field may need a nested proxy
+ */
+export function isNestedCandidate(value: unknown): boolean {
+    return Array.isArray(value) || value instanceof Map || value instanceof Set || isPlainObject(value);
+}
+
+/**
+ * Checks whether a property is a read-only, non-configurable data property, such as a
+ * property of a frozen object. A proxy must return the actual value of such a property,
+ * so it cannot be wrapped.
+ */
+export function isFixedProperty(target: object, prop: PropertyKey): boolean {
+    const descriptor = Reflect.getOwnPropertyDescriptor(target, prop);
+    return descriptor !== undefined && descriptor.configurable === false && descriptor.writable === false;
+}
+
+/**
+ * Wraps a value read from a tracked field so that in-place mutations are reported.
+ * Arrays, Maps and Sets are always wrapped; nested plain objects are only wrapped in
+ * deep mode, where changes are reported under the full field path. Values that cannot
+ * be tracked are returned as-is. Proxies are cached per object and path so repeated
+ * reads return the same reference.
+ */
+export function wrapNested(value: unknown, location: FieldLocation, scope: NestedProxyScope, deep: boolean): unknown {
+    const isCollection = Array.isArray(value) || value instanceof Map || value instanceof Set;
+    if (!isCollection && !(deep && isPlainObject(value))) {
+        return value;
+    }
+
+    const target = value as object;
+    let byField = scope.cache.get(target);
+    const cached = byField?.get(location.field);
+    if (cached) {
+        return cached;
+    }
+
+    const proxy = createNestedProxy(target, location, scope, deep);
+    if (!byField) {
+        byField = new Map();
+        scope.cache.set(target, byField);
+    }
+    byField.set(location.field, proxy);
+    nestedTargets.set(proxy, target);
+
+    return proxy;
+}
+
+/**
+ * Creates the proxy matching the kind of nested value
+ */
+function createNestedProxy(target: object, location: FieldLocation, scope: NestedProxyScope, deep: boolean): object {
+    if (Array.isArray(target)) {
+        return createArrayProxy(target, location, scope, deep);
+    }
+    if (target instanceof Map) {
+        return createMapProxy(target, location, scope, deep);
+    }
+    if (target instanceof Set) {
+        return createSetProxy(target, location, scope);
+    }
+    return createObjectProxy(target, location, scope);
+}
+
+/**
+ * Creates a proxy for a nested plain object that records changes with full paths
+ */
+function createObjectProxy(target: object, location: FieldLocation, scope: NestedProxyScope): object {
+    return new Proxy(target, {
+        get: (obj, prop, receiver) => {
+            const value = Reflect.get(obj, prop, receiver);
+
+            // Bind functions to preserve 'this' context
+            if (typeof value === 'function') {
+                return value.bind(obj);
+            }
+
+            if (typeof prop === 'string' && !isFixedProperty(obj, prop)) {
+                return wrapNested(value, propertyLocation(location, prop), scope, true);
+            }
+
+            return value;
+        },
+        set: (obj, prop, value, receiver) => {
+            const rawValue = unwrapNested(value);
+
+            // Every string property below a deep-tracked field is tracked
+            if (typeof prop === 'string') {
+                const oldValue = Reflect.get(obj, prop, receiver);
+                const child = propertyLocation(location, prop);
+                const changed = !scope.equals(child.path, oldValue, rawValue);
+
+                // A silently refused change reports success so strict-mode code does not throw
+                if (changed && !scope.allowChange(child, oldValue, rawValue)) {
+                    return true;
+                }
+                const success = Reflect.set(obj, prop, rawValue, receiver);
+
+                // Track only if assignment succeeded and value changed
+                if (success && changed) {
+                    scope.tracker.trackChange(child.field, oldValue, rawValue, child.path);
+                }
+                return success;
+            }
+
+            return Reflect.set(obj, prop, rawValue, receiver);
+        },
+        deleteProperty: (obj, prop) => {
+            if (typeof prop === 'string' && Object.prototype.hasOwnProperty.call(obj, prop)) {
+                const oldValue = Reflect.get(obj, prop);
+                const child = propertyLocation(location, prop);
+                if (!scope.allowChange(child, oldValue, AUDIT_REMOVED)) {
+                    return true;
+                }
+                const success = Reflect.deleteProperty(obj, prop);
+
+                if (success) {
+                    scope.tracker.trackChange(child.field, oldValue, AUDIT_REMOVED, child.path);
+                }
+                return success;
+            }
+
+            return Reflect.deleteProperty(obj, prop);
+        }
+    });
+}
+
+/**
+ * Creates a proxy for an array held by a tracked field
+ * Mutator method calls and index or length assignments are recorded as a single
+ * change of the whole array, with before and after snapshots as old and new values.
+ * The outcome of a mutation is only known once it ran, so a rejected mutation is
+ * undone by restoring the elements from before it.
+ */
+function createArrayProxy(target: unknown[], location: FieldLocation, scope: NestedProxyScope, deep: boolean): object {
+    const recordMutation = (before: unknown[], array: unknown[]): void => {
+        if (haveSameElements(before, array) || scope.equals(location.path, before, array)) {
+            return;
+        }
+
+        const after = snapshotArray(array);
+        let allowed: boolean;
+        try {
+            allowed = scope.allowChange(location, before, after);
+        } catch (error) {
+            array.splice(0, array.length, ...before);
+            throw error;
+        }
+
+        if (allowed) {
+            scope.tracker.trackChange(location.field, before, after, location.path);
+        } else {
+            array.splice(0, array.length, ...before);
+        }
+    };
+
+    const wrapElement = (element: unknown, index: number): unknown =>
+        wrapNested(element, entryLocation(location, index), scope, true);
+
+    return new Proxy(target, {
+        get: (arr, prop, receiver) => {
+            const value = Reflect.get(arr, prop, receiver);
+
+            if (typeof value === 'function') {
+                if (ARRAY_MUTATORS.has(prop)) {
+                    return (...args: unknown[]) => {
+                        const before = snapshotArray(arr);
+                        const result = value.apply(arr, args.map(unwrapNested));
+                        recordMutation(before, arr);
+
+                        // Methods returning the array itself keep returning the proxy
+                        return result === arr ? receiver : result;
+                    };
+                }
+
+                // Elements handed out while iterating are tracked like elements read by index
+                if (deep) {
+                    const iterating = deepArrayMethod(arr, prop, value, receiver, wrapElement);
+                    if (iterating) {
+                        return iterating;
+                    }
+                }
+
+                // Bind functions to preserve 'this' context
+                return value.bind(arr);
+            }
+
+            // Elements are only tracked individually in deep mode
+            if (deep && typeof prop === 'string' && isArrayIndex(prop) && !isFixedProperty(arr, prop)) {
+                return wrapElement(value, Number(prop));
+            }
+
+            return value;
+        },
+        set: (arr, prop, value, receiver) => {
+            const rawValue = unwrapNested(value);
+
+            if (typeof prop === 'string' && (prop === 'length' || isArrayIndex(prop))) {
+                const before = snapshotArray(arr);
+                const success = Reflect.set(arr, prop, rawValue, receiver);
+
+                if (success) {
+                    recordMutation(before, arr);
+                }
+                return success;
+            }
+
+            return Reflect.set(arr, prop, rawValue, receiver);
+        },
+        deleteProperty: (arr, prop) => {
+            if (typeof prop === 'string' && isArrayIndex(prop)) {
+                const before = snapshotArray(arr);
+                const success = Reflect.deleteProperty(arr, prop);
+
+                if (success) {
+                    recordMutation(before, arr);
+                }
+                return success;
+            }
+
+            return Reflect.deleteProperty(arr, prop);
+        }
+    });
+}
+
+/**
+ * Creates a proxy for a Map held by a tracked field
+ * set, delete and clear are recorded per entry under keys like `field[key]`
+ */
+function createMapProxy(target: Map<unknown, unknown>, location: FieldLocation, scope: NestedProxyScope, deep: boolean): object {
+    const trackEntry = (key: unknown, oldValue: unknown, newValue: unknown): void => {
+        const entry = entryLocation(location, key);
+        scope.tracker.trackChange(entry.field, oldValue, newValue, entry.path);
+    };
+
+    const wrapEntry = (key: unknown, value: unknown): unknown =>
+        wrapNested(value, entryLocation(location, key), scope, true);
+
+    const methods: Record<PropertyKey, CollectionMethod<Map<unknown, unknown>>> = {
+        set: (map: Map<unknown, unknown>, receiver: object, key: unknown, value: unknown) => {
+            const rawValue = unwrapNested(value);
+            const oldValue = map.get(key);
+            const entry = entryLocation(location, key);
+            const changed = !map.has(key) || !scope.equals(entry.path, oldValue, rawValue);
+
+            if (changed && !scope.allowChange(entry, oldValue, rawValue)) {
+                return receiver;
+            }
+            map.set(key, rawValue);
+
+            if (changed) {
+                trackEntry(key, oldValue, rawValue);
+            }
+            return receiver;
+        },
+        delete: (map: Map<unknown, unknown>, _receiver: object, key: unknown) => {
+            const oldValue = map.get(key);
+            if (map.has(key) && !scope.allowChange(entryLocation(location, key), oldValue, AUDIT_REMOVED)) {
+                return false;
+            }
+            const deleted = map.delete(key);
+
+            if (deleted) {
+                trackEntry(key, oldValue, AUDIT_REMOVED);
+            }
+            return deleted;
+        },
+        clear: (map: Map<unknown, unknown>) => {
+            // The Map is only cleared when the removal of every entry is allowed
+            const entries = Array.from(map.entries());
+            if (!entries.every(([key, oldValue]) => scope.allowChange(entryLocation(location, key), oldValue, AUDIT_REMOVED))) {
+                return;
+            }
+            map.clear();
+
+            for (const [key, oldValue] of entries) {
+                trackEntry(key, oldValue, AUDIT_REMOVED);
+            }
+        },
+        get: (map: Map<unknown, unknown>, _receiver: object, key: unknown) => {
+            const value = map.get(key);
+
+            // Entry values are only tracked individually in deep mode
+            return deep ? wrapEntry(key, value) : value;
+        }
+    };
+
+    // Entry values handed out while iterating are tracked like values read by key
+    if (deep) {
+        methods['values'] = map => deepMapValues(map, wrapEntry);
+        methods['entries'] = map => deepMapEntries(map, wrapEntry);
+        methods[Symbol.iterator] = map => deepMapEntries(map, wrapEntry);
+        methods['forEach'] = (map, receiver, callback, thisArg) => {
+            if (typeof callback !== 'function') {
+                return map.forEach(callback as never);
+            }
+            map.forEach((value, key) => callback.call(thisArg, wrapEntry(key, value), key, receiver));
+            return undefined;
+        };
+    }
+
+    return createCollectionProxy(target, methods);
+}
+
+/**
+ * Creates a proxy for a Set held by a tracked field
+ * add, delete and clear are recorded per member under keys like `field[member]`
+ */
+function createSetProxy(target: Set<unknown>, location: FieldLocation, scope: NestedProxyScope): object {
+    const trackMember = (member: unknown, oldValue: unknown, newValue: unknown): void => {
+        const entry = entryLocation(location, member);
+        scope.tracker.trackChange(entry.field, oldValue, newValue, entry.path);
+    };
+
+    const methods: Record<PropertyKey, CollectionMethod<Set<unknown>>> = {
+        add: (set: Set<unknown>, receiver: object, member: unknown) => {
+            const rawMember = unwrapNested(member);
+            if (!set.has(rawMember) && scope.allowChange(entryLocation(location, rawMember), undefined, rawMember)) {
+                set.add(rawMember);
+                trackMember(rawMember, undefined, rawMember);
+            }
+            return receiver;
+        },
+        delete: (set: Set<unknown>, _receiver: object, member: unknown) => {
+            const rawMember = unwrapNested(member);
+            if (set.has(rawMember) && !scope.allowChange(entryLocation(location, rawMember), rawMember, AUDIT_REMOVED)) {
+                return false;
+            }
+            const deleted = set.delete(rawMember);
+
+            if (deleted) {
+                trackMember(rawMember, rawMember, AUDIT_REMOVED);
+            }
+            return deleted;
+        },
+        clear: (set: Set<unknown>) => {
+            // The Set is only cleared when the removal of every member is allowed
+            const members = Array.from(set);
+            if (!members.every(member => scope.allowChange(entryLocation(location, member), member, AUDIT_REMOVED))) {
+                return;
+            }
+            set.clear();
+
+            for (const member of members) {
+                trackMember(member, member, AUDIT_REMOVED);
+            }
+        }
+    };
+
+    return createCollectionProxy(target, methods);
+}
+
+/**
+ * Creates a proxy for a Map or Set that routes selected methods through tracking wrappers
+ * Built-in collections require their own instance as receiver, so every other method and
+ * accessor such as `size` is resolved and bound against the raw collection
+ */
+function createCollectionProxy<C extends object>(
+    target: C,
+    methods: Record<PropertyKey, CollectionMethod<C>>
+): object {
+    return new Proxy(target, {
+        get: (collection, prop, receiver) => {
+            const tracked = Object.prototype.hasOwnProperty.call(methods, prop) ? methods[prop] : undefined;
+            if (tracked) {
+                return (...args: unknown[]) => tracked(collection, receiver, ...args);
+            }
+
+            const value = Reflect.get(collection, prop, collection);
+
+            // Bind functions to preserve 'this' context
+            if (typeof value === 'function') {
+                return value.bind(collection);
+            }
+
+            return value;
+        }
+    });
+}
+
+/**
+ * Returns a version of a non-mutating array method that hands wrapped elements to its
+ * callback or iterator, or undefined when the method does not hand out elements
+ * Runs the method on the raw array, so results such as filtered copies hold raw elements;
+ * only find and findLast return the matched element wrapped
+ */
+function deepArrayMethod(
+    arr: unknown[],
+    prop: PropertyKey,
+    method: (...args: unknown[]) => unknown,
+    receiver: object,
+    wrapElement: (element: unknown, index: number) => unknown
+): ((...args: unknown[]) => unknown) | undefined {
+    if (ARRAY_CALLBACK_METHODS.has(prop)) {
+        return (callback: unknown, thisArg?: unknown) => {
+            if (typeof callback !== 'function') {
+                return method.call(arr, callback, thisArg);
+            }
+
+            let matched: number | undefined;
+            const result = method.call(arr, (element: unknown, index: number) => {
+                const outcome = callback.call(thisArg, wrapElement(element, index), index, receiver);
+                if (outcome) {
+                    matched = index;
+                }
+                return unwrapNested(outcome);
+            });
+
+            if ((prop === 'find' || prop === 'findLast') && matched !== undefined) {
+                return wrapElement(result, matched);
+            }
+            return result;
+        };
+    }
+    if (ARRAY_REDUCERS.has(prop)) {
+        return (callback: unknown, ...initial: unknown[]) => {
+            if (typeof callback !== 'function') {
+                return method.call(arr, callback, ...initial);
+            }
+            return method.call(arr, (accumulator: unknown, element: unknown, index: number) =>
+                callback(accumulator, wrapElement(element, index), index, receiver), ...initial);
+        };
+    }
+    if (ARRAY_ITERATORS.has(prop)) {
+        return () => deepArrayElements(arr, prop === 'entries', wrapElement);
+    }
+    return undefined;
+}
+
+/**
+ * Iterates over the live elements of an array, wrapping each one
+ */
+function* deepArrayElements(
+    arr: unknown[],
+    withIndex: boolean,
+    wrapElement: (element: unknown, index: number) => unknown
+): IterableIterator<unknown> {
+    for (let index = 0; index < arr.length; index++) {
+        const element = wrapElement(arr[index], index);
+        yield withIndex ? [index, element] : element;
+    }
+}
+
+/**
+ * Iterates over the values of a Map, wrapping each one
+ */
+function* deepMapValues(
+    map: Map<unknown, unknown>,
+    wrapEntry: (key: unknown, value: unknown) => unknown
+): IterableIterator<unknown> {
+    for (const [key, value] of map) {
+        yield wrapEntry(key, value);
+    }
+}
+
+/**
+ * Iterates over the entries of a Map, wrapping each value
+ */
+function* deepMapEntries(
+    map: Map<unknown, unknown>,
+    wrapEntry: (key: unknown, value: unknown) => unknown
+): IterableIterator<[unknown, unknown]> {
+    for (const [key, value] of map) {
+        yield [key, wrapEntry(key, value)];
+    }
+}
+
+/**
+ * Location of a property of a nested object, formatted as `field.prop`
+ */
+function propertyLocation(parent: FieldLocation, prop: string): FieldLocation {
+    return {field: `${parent.field}.${prop}`, path: [...parent.path, prop]};
+}
+
+/**
+ * Location of an array element, Map entry or Set member, formatted as `field[key]`
+ */
+function entryLocation(parent: FieldLocation, key: unknown): FieldLocation {
+    return {field: `${parent.field}[${String(key)}]`, path: [...parent.path, key]};
+}
+
+/**
+ * Checks whether a property key is a canonical array index
+ */
+function isArrayIndex(prop: string): boolean {
+    return /^(0|[1-9]\d*)$/.test(prop);
+}
@@ -1,10 +1,50 @@
-import {AuditHandle, ProxyFactory} from '../types';
+import {
+    AUDIT_REMOVED,
+    AuditChangeListener,
+    AuditHandle,
+    AuditOptions,
+    AuditSnapshot,
+    ChangeRecord,
+    ChangeRecordImpl,
+    ChangeTracker,
+    ProxyFactory
+} from '../types';
 import {metadataManager} from '../metadata';
-import {ChangeTrackerImpl} from '../tracking';
+import {ChangeTrackerImpl, isFieldOrNested} from '../tracking';
+import {diffSnapshot, restoreSnapshot, takeSnapshot} from '../snapshot';
+import {customEqual, valuesEqual} from '../equality';
+import {deepClone, deepEqual} from '../utils';
+import {fieldRedactor, isRedactedRecord, markRedacted} from '../redaction';
+import {notifyAnyAuditChange} from '../events';
+import {AuditVetoError, checkGuards} from '../veto';
+import {applyRecordedValue, replayRecords, revertRecords} from './ChangeApplier';
+import {
+    fieldLocation,
+    isFixedProperty,
+    isNestedCandidate,
+    NestedProxyScope,
+    unwrapNested,
+    wrapNested
+} from './NestedProxy';
+
+/**
+ * Original targets of the audit proxies created by the factory, keyed by proxy
+ */
+const auditTargets = new WeakMap<object, object>();
+
+/**
+ * Handles of the audit proxies created by the factory, keyed by proxy
+ */
+const auditHandles = new WeakMap<object, AuditHandle>();
+
+/**
+ * Detaches the audit state of a proxy created by the factory, keyed by proxy
+ */
+const auditDetachers = new WeakMap<object, () => () => void>();
 
 /**
  * Implementation of ProxyFactory for creating transparent object wrappers
- * Optimized version using only essential get/set traps for maximum performance
+ * Optimized version using only essential get/set/deleteProperty traps for maximum performance
  */
 export class ProxyFactoryImpl implements ProxyFactory {
 
@@ -12,24 +52,156 @@ export class ProxyFactoryImpl implements ProxyFactory {
      * Creates an audit-enabled proxy wrapper for the given object
      * Optimized implementation with minimal overhead and direct ChangeTracker storage
      */
-    createAuditProxy<T extends object>(target: T): T & AuditHandle {
+    createAuditProxy<T extends object>(target: T, options: AuditOptions<T> = {}): T & AuditHandle {
         // Input validation (essential error handling)
         if (!target || typeof target !== 'object') {
             throw new Error('Proxy target must be a non-null object');
         }
 
+        // Tracked fields combine the class configuration with the per-call options:
+        // ignore always wins, fields are always added and trackAll replaces class-level tracking
+        const extraFields = new Set<string>(options.fields ?? []);
+        const ignoredFields = new Set<string>(options.ignore ?? []);
+        const isTracked = (field: string): boolean => !ignoredFields.has(field)
+            && (extraFields.has(field) || metadataManager.isFieldTracked(target, field, options.trackAll));
+        const trackedFields = (): Set<string> => {
+            const fields = new Set([...metadataManager.getTrackedFields(target, options.trackAll), ...extraFields]);
+            ignoredFields.forEach(field => fields.delete(field));
+            return fields;
+        };
+
+        // Sensitive fields are redacted at capture time, including values nested below them
+        const redactorFor = (path: readonly unknown[]): ((value: unknown) => unknown) | undefined =>
+            typeof path[0] === 'string' ? fieldRedactor(target, path[0]) : undefined;
+
+        // Redacted records no longer hold the values needed to restore them, so the raw
+        // values of sensitive fields at the last reset are kept here, outside the tracker
+        const sensitiveOriginals = new Map<string, unknown>();
+        const captureSensitive = (fields: Iterable<string>): void => {
+            for (const field of fields) {
+                if (fieldRedactor(target, field)) {
+                    sensitiveOriginals.set(field, Object.prototype.hasOwnProperty.call(target, field)
+                        ? deepClone(Reflect.get(target, field))
+                        : AUDIT_REMOVED);
+                }
+            }
+        };
+        const revertChanges = (records: ChangeRecord[]): void => {
+            revertRecords(target, records.filter(record => !isRedactedRecord(record)));
+
+            const sensitive = new Set(records.filter(isRedactedRecord).map(record => String(record.path[0])));
+            for (const field of sensitive) {
+                const original = sensitiveOriginals.get(field);
+                applyRecordedValue(target, [field], original === AUDIT_REMOVED ? original : deepClone(original));
+            }
+        };
+        captureSensitive(trackedFields());
+
+        // Compares the raw value of a sensitive field with its value at the last reset
+        const isSensitiveRestored = (field: string): boolean => {
+            if (!sensitiveOriginals.has(field)) {
+                return false;
+            }
+            const original = sensitiveOriginals.get(field);
+            const current = Reflect.get(target, field);
+
+            // A removal and undefined both mean the field has no value
+            if (original === AUDIT_REMOVED || original === undefined || current === undefined) {
+                return (original === AUDIT_REMOVED || original === undefined) && current === undefined;
+            }
+            return valuesEqual(target, [field], original, current) || deepEqual(original, current);
+        };
+
         // Create tracker directly (no intermediate state)
-        const tracker = new ChangeTrackerImpl();
+        const tracker = new ChangeTrackerImpl({
+            history: options.history === true,
+            netChanges: options.netChanges === true,
+            isUnchanged: (path, oldValue, newValue) => customEqual(target, path, oldValue, newValue),
+            redactorFor,
+            isRestored: path => isSensitiveRestored(String(path[0])),
+            context: options.context,
+            // Global listeners run after the listeners of this object
+            onChange: change => notifyAnyAuditChange(change, proxy)
+        });
+        if (options.onChange) {
+            tracker.subscribe(options.onChange);
+        }
+
+        // Runs the beforeChange guards; a rejected change is recorded, then thrown or ignored
+        const allowChange = (field: string, oldValue: unknown, newValue: unknown, path: readonly unknown[] = [field]): boolean => {
+            const veto = checkGuards(target, {field, oldValue, newValue, path}, options.beforeChange);
+            if (!veto) {
+                return true;
+            }
+            const rejected = tracker.reject(field, oldValue, newValue, veto.reason, path);
+            if (rejected && options.onVeto !== 'ignore') {
+                throw new AuditVetoError(rejected);
+            }
+            return false;
+        };
+        const scope: NestedProxyScope = {
+            tracker,
+            cache: new WeakMap(),
+            equals: (path, a, b) => valuesEqual(target, path, a, b),
+            allowChange: (location, oldValue, newValue) => allowChange(location.field, oldValue, newValue, location.path)
+        };
+
+        // Methods of the AuditHandle, shared by every read of the proxy
+        const handle: AuditHandle = {
+            changes: () => tracker.getChanges(),
+            history: () => tracker.getHistory(),
+            revert: () => {
+                revertChanges(this.replayableRecords(tracker));
+                tracker.reset();
+                captureSensitive(trackedFields());
+            },
+            revertField: (field: string) => {
+                const records = this.replayableRecords(tracker)
+                    .filter(record => isFieldOrNested(record.field, field));
+                revertChanges(records);
+                tracker.discard(field);
+                captureSensitive([field]);
+            },
+            undo: () => {
+                const undone = tracker.undo();
+                revertRecords(target, undone);
+                return undone.length > 0;
+            },
+            redo: () => {
+                const redone = tracker.redo();
+                replayRecords(target, redone);
+                return redone.length > 0;
+            },
+            canUndo: () => tracker.canUndo(),
+            canRedo: () => tracker.canRedo(),
+            batch: <R>(fn: () => R): R => {
+                tracker.beginGroup();
+                try {
+                    return fn();
+                } finally {
+                    tracker.endGroup();
+                }
+            },
+            snapshot: () => takeSnapshot(target, trackedFields()),
+            restore: (snapshot: AuditSnapshot) => restoreSnapshot(proxy, target, trackedFields(), snapshot),
+            diffSince: (snapshot: AuditSnapshot) =>
+                this.redactRecords(diffSnapshot(target, trackedFields(), snapshot), redactorFor),
+            hasChanges: () => tracker.hasChanges(),
+            rejectedChanges: () => tracker.getRejected(),
+            onChange: (listener: AuditChangeListener) => tracker.subscribe(listener),
+            resetAudit: () => {
+                tracker.reset();
+                captureSensitive(trackedFields());
+            }
+        };
 
         // Create proxy with only essential traps
         const proxy = new Proxy(target, {
             get: (obj, prop, receiver) => {
-                // Handle AuditHandle methods
-                if (prop === 'changes') {
-                    return () => tracker.getChanges();
-                }
-                if (prop === 'resetAudit') {
-                    return () => tracker.reset();
+                // Handle methods give way to members of the object with the same name;
+                // they stay reachable through getAuditHandle
+                if (typeof prop === 'string' && Object.prototype.hasOwnProperty.call(handle, prop) && !(prop in obj)) {
+                    return handle[prop as keyof AuditHandle];
                 }
 
                 // Get property value
@@ -40,28 +212,113 @@ export class ProxyFactoryImpl implements ProxyFactory {
                     return value.bind(obj);
                 }
 
+                // Hand out nested proxies for collections and deep-tracked fields,
+                // except for properties of frozen objects, which must be returned as they are
+                if (typeof prop === 'string' && isNestedCandidate(value) && isTracked(prop)
+                    && !isFixedProperty(obj, prop)) {
+                    return this.wrapFieldValue(obj, prop, value, scope, options.deep === true);
+                }
+
                 return value;
             },
             set: (obj, prop, value, receiver) => {
+                const rawValue = unwrapNested(value);
+
                 // Only track string properties
-                if (typeof prop === 'string' && metadataManager.isFieldTracked(obj, prop)) {
+                if (typeof prop === 'string' && isTracked(prop)) {
                     const oldValue = Reflect.get(obj, prop, receiver);
-                    const success = Reflect.set(obj, prop, value, receiver);
+                    const changed = !scope.equals([prop], oldValue, rawValue);
+
+                    // A silently refused change reports success so strict-mode code does not throw
+                    if (changed && !allowChange(prop, oldValue, rawValue)) {
+                        return true;
+                    }
+                    const success = Reflect.set(obj, prop, rawValue, receiver);
 
                     // Track only if assignment succeeded and value changed
-                    if (success && !Object.is(oldValue, value)) {
-                        tracker.trackChange(prop, oldValue, value);
+                    if (success && changed) {
+                        tracker.trackChange(prop, oldValue, rawValue);
                     }
                     return success;
                 }
 
                 // For non-tracked fields, just perform assignment
-                return Reflect.set(obj, prop, value, receiver);
+                return Reflect.set(obj, prop, rawValue, receiver);
+            },
+            deleteProperty: (obj, prop) => {
+                // Only track removal of existing string properties
+                if (typeof prop === 'string' && Object.prototype.hasOwnProperty.call(obj, prop)
+                    && isTracked(prop)) {
+                    const oldValue = Reflect.get(obj, prop);
+                    if (!allowChange(prop, oldValue, AUDIT_REMOVED)) {
+                        return true;
+                    }
+                    const success = Reflect.deleteProperty(obj, prop);
+
+                    if (success) {
+                        tracker.trackChange(prop, oldValue, AUDIT_REMOVED);
+                    }
+                    return success;
+                }
+
+                return Reflect.deleteProperty(obj, prop);
             }
         });
 
+        auditTargets.set(proxy, target);
+        auditHandles.set(proxy, handle);
+        auditDetachers.set(proxy, () => {
+            const originals = new Map(sensitiveOriginals);
+            const reattach = tracker.detach();
+            captureSensitive(trackedFields());
+            return () => {
+                reattach();
+                originals.forEach((value, field) => sensitiveOriginals.set(field, value));
+            };
+        });
         return proxy as T & AuditHandle;
     }
+
+    /**
+     * Returns the records to replay when reverting, oldest first
+     * Uses the full journal in history mode and the collapsed view otherwise
+     */
+    private replayableRecords(tracker: ChangeTracker): ChangeRecord[] {
+        const history = tracker.getHistory();
+        return history.length > 0 ? history : tracker.getChanges();
+    }
+
+    /**
+     * Redacts the values of records built outside the tracker, such as snapshot diffs
+     */
+    private redactRecords(
+        records: ChangeRecord[],
+        redactorFor: (path: readonly unknown[]) => ((value: unknown) => unknown) | undefined
+    ): ChangeRecord[] {
+        return records.map(record => {
+            const redact = redactorFor(record.path);
+            return redact
+                ? markRedacted(new ChangeRecordImpl(record.field, redact(record.oldValue), redact(record.newValue), record.sequence,
+                    record.firstChangedAt, record.lastChangedAt, record.context, record.path))
+                : record;
+        });
+    }
+
+    /**
+     * Wraps the value of a tracked field in a nested proxy so in-place mutations are recorded
+     * Arrays, Maps and Sets are always wrapped; deep tracking of nested objects is enabled per proxy
+     * through Audit options or per field through @AuditField
+     */
+    private wrapFieldValue(
+        target: object,
+        field: string,
+        value: unknown,
+        scope: NestedProxyScope,
+        deepByDefault: boolean
+    ): unknown {
+        const deep = deepByDefault || metadataManager.getFieldOptions(target, field).deep === true;
+        return wrapNested(value, fieldLocation(field), scope, deep);
+    }
 }
 
 /**
@@ -69,9 +326,41 @@ export class ProxyFactoryImpl implements ProxyFactory {
  */
 export const proxyFactory = new ProxyFactoryImpl();
 
+/**
+ * Returns the original object behind an audit proxy, or the value itself when it is not one
+ */
+export function getAuditTarget<T extends object>(value: T): T {
+    return (auditTargets.get(value) as T | undefined) ?? value;
+}
+
+/**
+ * Returns the audit handle of an audited object
+ * Reaches the handle methods even when the object has members with the same names
+ */
+export function getAuditHandle(audited: object): AuditHandle {
+    const handle = auditHandles.get(audited);
+    if (!handle) {
+        throw new Error('Value is not an audited object');
+    }
+    return handle;
+}
+
+/**
+ * Resets the audit state of an audited object, as resetAudit() does, and returns a
+ * function putting the detached changes back in front of the changes made since
+ */
+export function detachAuditChanges(audited: object): () => void {
+    const detach = auditDetachers.get(audited);
+    if (!detach) {
+        (audited as Partial<AuditHandle>).resetAudit?.();
+        return () => undefined;
+    }
+    return detach();
+}
+
 /**
  * Convenience function for creating audit proxies
  */
-export function createAuditProxy<T extends object>(target: T): T & AuditHandle {
-    return proxyFactory.createAuditProxy(target);
-}
\ No newline at end of file
+export function createAuditProxy<T extends object>(target: T, options?: AuditOptions<T>): T & AuditHandle {
+    return proxyFactory.createAuditProxy(target, options);
+}
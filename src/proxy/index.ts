@@ -1,3 +1,3 @@
 // Export proxy-related functionality
 export { ProxyFactoryImpl } from './ProxyFactory';
-export { createAuditProxy } from './ProxyFactory';
\ No newline at end of file
+export { createAuditProxy, detachAuditChanges, getAuditHandle, getAuditTarget } from './ProxyFactory';
\ No newline at end of file
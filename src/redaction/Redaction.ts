@@ -0,0 +1,104 @@
+import {createHmac, randomBytes} from 'crypto';
+import {AUDIT_REMOVED, AuditRedactionStrategy, ChangeRecord} from '../types';
+import {metadataManager} from '../metadata';
+
+/**
+ * Placeholder stored instead of the values of fields redacted with the `omit` strategy
+ */
+export const AUDIT_REDACTED = '[REDACTED]';
+
+/**
+ * Number of trailing characters left visible by the `mask` strategy
+ */
+const MASK_VISIBLE_CHARACTERS = 4;
+
+/**
+ * Salt used by the `hash` strategy; random per process until configured
+ */
+let redactionSalt = randomBytes(16).toString('hex');
+
+/**
+ * Change records whose values were redacted
+ */
+const redactedRecords = new WeakSet<ChangeRecord>();
+
+/**
+ * Sets the salt used to hash sensitive values
+ * Configure a stable salt to compare hashes across processes. Call without arguments
+ * to go back to a random per-process salt.
+ */
+export function setAuditRedactionSalt(salt?: string): void {
+    redactionSalt = salt ?? randomBytes(16).toString('hex');
+}
+
+/**
+ * Returns the function redacting the values of a field, or undefined when the field
+ * is not sensitive
+ */
+export function fieldRedactor(target: object, field: string): ((value: unknown) => unknown) | undefined {
+    const options = metadataManager.getFieldOptions(target, field);
+    if (options.redact === undefined || options.redact === false) {
+        return undefined;
+    }
+
+    const strategy: AuditRedactionStrategy = options.redact === true ? 'omit' : options.redact;
+    const salt = options.salt;
+    return value => redactValue(value, strategy, salt);
+}
+
+/**
+ * Marks a change record as holding redacted values
+ */
+export function markRedacted<R extends ChangeRecord>(record: R): R {
+    redactedRecords.add(record);
+    return record;
+}
+
+/**
+ * Checks whether a change record holds redacted values
+ * Redacted values say that a field changed, not what it changed to, so they must never
+ * be compared, applied or restored like real values
+ */
+export function isRedactedRecord(record: ChangeRecord): boolean {
+    return redactedRecords.has(record);
+}
+
+/**
+ * Redacts a single value with the given strategy
+ * Absent values and the removal marker are kept as they are.
+ */
+export function redactValue(value: unknown, strategy: AuditRedactionStrategy, salt: string = redactionSalt): unknown {
+    if (value === undefined || value === null || value === AUDIT_REMOVED) {
+        return value;
+    }
+
+    switch (strategy) {
+        case 'mask':
+            return maskValue(value);
+        case 'hash':
+            return createHmac('sha256', salt).update(stringifyValue(value)).digest('hex');
+        default:
+            return AUDIT_REDACTED;
+    }
+}
+
+function maskValue(value: unknown): string {
+    if (typeof value === 'object' || typeof value === 'function') {
+        return AUDIT_REDACTED;
+    }
+
+    const text = String(value);
+    const visible = text.length > MASK_VISIBLE_CHARACTERS ? text.slice(-MASK_VISIBLE_CHARACTERS) : '';
+    return '*'.repeat(text.length - visible.length) + visible;
+}
+
+function stringifyValue(value: unknown): string {
+    if (typeof value === 'string') {
+        return value;
+    }
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch (error) {
+        return String(value);
+    }
+}
@@ -0,0 +1 @@
+export { AUDIT_REDACTED, setAuditRedactionSalt, fieldRedactor, redactValue, markRedacted, isRedactedRecord } from './Redaction';
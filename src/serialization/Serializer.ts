@@ -0,0 +1,211 @@
+import {AUDIT_REMOVED, AuditSerializer, ChangeRecord, SerializedChangeRecord} from '../types';
+import {metadataManager} from '../metadata';
+import {getAuditTarget} from '../proxy';
+import {isRedactedRecord} from '../redaction';
+
+/**
+ * Abstract constructor a serializer can be registered for
+ */
+type SerializableType<V> = abstract new (...args: never[]) => V;
+
+/**
+ * Serializer as stored in the registries, applied to instances of its registered type
+ */
+type RegisteredSerializer = AuditSerializer<object>;
+
+/**
+ * Placeholder emitted for a reference back to an object that is still being serialized
+ */
+const CIRCULAR_PLACEHOLDER = '[Circular]';
+
+/**
+ * Built-in serializers for common non-JSON types, keyed by constructor
+ */
+const builtInSerializers = new Map<Function, RegisteredSerializer>([
+    [Date, value => {
+        const date = value as Date;
+        return Number.isNaN(date.getTime()) ? null : date.toISOString();
+    }],
+    [Map, (value, serialize) => {
+        const entries: Record<string, unknown> = {};
+        for (const [key, item] of value as Map<unknown, unknown>) {
+            entries[String(key)] = serialize(item);
+        }
+        return entries;
+    }],
+    [Set, (value, serialize) => Array.from(value as Set<unknown>, serialize)]
+]);
+
+if (typeof Buffer === 'function') {
+    builtInSerializers.set(Buffer, value => (value as Buffer).toString('base64'));
+}
+
+/**
+ * Serializers registered by the application; these take precedence over the built-ins
+ */
+const customSerializers = new Map<Function, RegisteredSerializer>();
+
+/**
+ * Registers a serializer for instances of a type, including subclasses
+ * Replaces the built-in serializer or a previously registered one for the same type
+ */
+export function registerAuditSerializer<V>(type: SerializableType<V>, serializer: AuditSerializer<V>): void {
+    customSerializers.set(type, serializer as RegisteredSerializer);
+}
+
+/**
+ * Removes a registered serializer, falling back to the built-in behavior for the type
+ */
+export function unregisterAuditSerializer(type: Function): void {
+    customSerializers.delete(type);
+}
+
+/**
+ * Converts a value into a JSON-safe representation
+ * Dates become ISO strings, BigInts strings, Maps objects, Sets arrays, Buffers base64
+ * strings and class instances plain objects of their own properties. References back to
+ * an object that is still being serialized are replaced with a placeholder.
+ */
+export function serializeAuditValue(value: unknown): unknown {
+    return toJsonSafe(serializeValue(value, new Set()));
+}
+
+/**
+ * Converts change records into JSON-safe records
+ * Uses the field's `@AuditField({ serialize })` serializer for top-level values when the
+ * target object is given, and drops changes whose old and new values serialize identically.
+ * Redacted changes are always kept, as their values may be identical placeholders.
+ */
+export function serializeChanges(changes: readonly ChangeRecord[], target?: object): SerializedChangeRecord[] {
+    const source = target ? getAuditTarget(target) : undefined;
+    const serialized: SerializedChangeRecord[] = [];
+
+    for (const change of changes) {
+        const fieldSerializer = source && change.path.length === 1
+            ? metadataManager.getFieldOptions(source, change.field).serialize
+            : undefined;
+        const removed = change.newValue === AUDIT_REMOVED;
+        const oldValue = serializeRecordValue(change.oldValue, fieldSerializer);
+        const newValue = removed ? null : serializeRecordValue(change.newValue, fieldSerializer);
+
+        if (!removed && !isRedactedRecord(change) && JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+            continue;
+        }
+
+        const record: SerializedChangeRecord = {
+            field: change.field,
+            path: change.path.map(segment => typeof segment === 'number' ? segment : serializeAuditValue(segment)),
+            oldValue,
+            newValue,
+            sequence: change.sequence,
+            firstChangedAt: change.firstChangedAt,
+            lastChangedAt: change.lastChangedAt
+        };
+        if (removed) {
+            record.removed = true;
+        }
+        if (change.context !== undefined) {
+            record.context = serializeAuditValue(change.context);
+        }
+        serialized.push(record);
+    }
+
+    return serialized;
+}
+
+function serializeRecordValue(value: unknown, fieldSerializer: AuditSerializer | undefined): unknown {
+    if (value === undefined || value === AUDIT_REMOVED) {
+        return null;
+    }
+    if (fieldSerializer) {
+        return toJsonSafe(fieldSerializer(value, serializeAuditValue));
+    }
+    return serializeAuditValue(value);
+}
+
+/**
+ * Serializes a value, tracking the objects currently being serialized to detect cycles
+ * Returns undefined for values JSON cannot represent, such as functions
+ */
+function serializeValue(value: unknown, ancestors: Set<object>): unknown {
+    // Removed values are symbols, so they are checked before other symbols are stringified
+    if (value === null || value === AUDIT_REMOVED) {
+        return null;
+    }
+
+    switch (typeof value) {
+        case 'undefined':
+        case 'function':
+            return undefined;
+        case 'bigint':
+            return value.toString();
+        case 'symbol':
+            return value.toString();
+        case 'number':
+            return Number.isFinite(value) ? value : null;
+        case 'string':
+        case 'boolean':
+            return value;
+    }
+
+    const object = value as object;
+    if (ancestors.has(object)) {
+        return CIRCULAR_PLACEHOLDER;
+    }
+
+    ancestors.add(object);
+    try {
+        const serialize = (nested: unknown): unknown => toJsonSafe(serializeValue(nested, ancestors));
+
+        const serializer = findSerializer(object);
+        if (serializer) {
+            return serializer(object, serialize);
+        }
+
+        const toJSON: unknown = Reflect.get(object, 'toJSON');
+        if (typeof toJSON === 'function') {
+            return serialize(toJSON.call(object));
+        }
+
+        if (Array.isArray(object)) {
+            return object.map(serialize);
+        }
+
+        const result: Record<string, unknown> = {};
+        for (const key of Object.keys(object)) {
+            const serializedValue = serializeValue(Reflect.get(object, key), ancestors);
+            if (serializedValue !== undefined) {
+                result[key] = serializedValue;
+            }
+        }
+        return result;
+    } finally {
+        ancestors.delete(object);
+    }
+}
+
+/**
+ * Finds the serializer registered for the closest type in the value's prototype chain
+ */
+function findSerializer(value: object): RegisteredSerializer | undefined {
+    let prototype: unknown = Object.getPrototypeOf(value);
+
+    while (prototype !== null && typeof prototype === 'object') {
+        const constructor: unknown = Reflect.get(prototype, 'constructor');
+        if (typeof constructor === 'function') {
+            const serializer = customSerializers.get(constructor) ?? builtInSerializers.get(constructor);
+            if (serializer) {
+                return serializer;
+            }
+        }
+        prototype = Object.getPrototypeOf(prototype);
+    }
+    return undefined;
+}
+
+/**
+ * Replaces values JSON cannot represent at the top level with null
+ */
+function toJsonSafe(value: unknown): unknown {
+    return value === undefined ? null : value;
+}
@@ -0,0 +1 @@
+export { registerAuditSerializer, unregisterAuditSerializer, serializeAuditValue, serializeChanges } from './Serializer';
@@ -0,0 +1,104 @@
+import {AuditEntityChanges, AuditEntityRef, AuditHandle, AuditOptions, AuditSessionOptions, AuditSink} from '../types';
+import {createAuditProxy, detachAuditChanges, getAuditTarget} from '../proxy';
+
+/**
+ * An object tracked by a session together with the entity it represents
+ */
+interface TrackedEntity {
+    audited: AuditHandle;
+    entityType: string;
+    id: string | number | undefined;
+}
+
+/**
+ * Unit of work tracking the changes of several audited objects together
+ * Changes are reported per entity, flushed to sinks on commit and reverted on rollback
+ */
+export class AuditSession {
+    private readonly entities = new Map<object, TrackedEntity>();
+    private readonly sinks: AuditSink[];
+
+    constructor(options: AuditSessionOptions = {}) {
+        this.sinks = [...(options.sinks ?? [])];
+    }
+
+    /**
+     * Tracks an object as part of the session and returns its audited wrapper
+     * Objects that are already audited are tracked as they are; tracking an object twice
+     * returns the wrapper of the first call
+     *
+     * @param target - The object, or audited wrapper, to track
+     * @param entity - The entity type and id reported with its changes
+     * @param options - Audit options used when the object is wrapped
+     */
+    track<T extends object>(target: T, entity: AuditEntityRef, options?: AuditOptions<T>): T & AuditHandle {
+        if (!entity || typeof entity.entityType !== 'string' || entity.entityType.length === 0) {
+            throw new Error('Audit session entities must have an entity type');
+        }
+
+        const original = getAuditTarget(target);
+        const tracked = this.entities.get(original);
+        if (tracked) {
+            return tracked.audited as T & AuditHandle;
+        }
+
+        const audited = original === target ? createAuditProxy(target, options) : target as T & AuditHandle;
+        this.entities.set(original, {audited, entityType: entity.entityType, id: entity.id});
+        return audited;
+    }
+
+    /**
+     * Returns the changes of every tracked entity that has changes, in tracking order
+     */
+    changes(): AuditEntityChanges[] {
+        const result: AuditEntityChanges[] = [];
+        for (const {audited, entityType, id} of this.entities.values()) {
+            const changes = audited.changes();
+            if (changes.length > 0) {
+                result.push(Object.freeze({entityType, id, changes}));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Checks whether any tracked entity has changes
+     */
+    hasChanges(): boolean {
+        return Array.from(this.entities.values()).some(({audited}) => audited.hasChanges());
+    }
+
+    /**
+     * Resets the audit history of the tracked objects, then flushes the changes to every
+     * sink in order. Sinks are not called when there are no changes.
+     * Changes made while the sinks are awaited are kept for the next commit. When a sink
+     * fails the returned promise rejects and the committed changes are put back in front
+     * of them, so the commit can be retried.
+     *
+     * @returns The committed changes
+     */
+    async commit(): Promise<AuditEntityChanges[]> {
+        const changes = this.changes();
+        const detached = Array.from(this.entities.values(), ({audited}) => detachAuditChanges(audited));
+        try {
+            if (changes.length > 0) {
+                for (const sink of this.sinks) {
+                    await sink(changes);
+                }
+            }
+        } catch (error) {
+            detached.forEach(reattach => reattach());
+            throw error;
+        }
+        return changes;
+    }
+
+    /**
+     * Reverts every tracked object to its state at the last commit, or when it was tracked
+     */
+    rollback(): void {
+        for (const {audited} of this.entities.values()) {
+            audited.revert();
+        }
+    }
+}
@@ -0,0 +1 @@
+export { AuditSession } from './AuditSession';
@@ -0,0 +1,92 @@
+import {AUDIT_REMOVED, AuditSnapshot, ChangeRecord, ChangeRecordImpl} from '../types';
+import {auditClock, auditLogger, deepClone, deepEqual} from '../utils';
+import {auditContextStore} from '../context';
+
+/**
+ * Captures the current values of the given fields as a frozen, deep-copied snapshot
+ * Fields that do not exist on the target are left out of the snapshot
+ */
+export function takeSnapshot(target: object, fields: Iterable<string>): AuditSnapshot {
+    const values: Record<string, unknown> = {};
+
+    for (const field of fields) {
+        try {
+            if (field in target) {
+                values[field] = deepClone(Reflect.get(target, field), true);
+            }
+        } catch (error) {
+            auditLogger.error('Failed to capture field in snapshot', error, {
+                field,
+                targetConstructor: target.constructor?.name
+            });
+        }
+    }
+
+    return Object.freeze({
+        takenAt: auditClock.now(),
+        values: Object.freeze(values)
+    });
+}
+
+/**
+ * Compares the current values of the given fields with a snapshot
+ * Returns one change record per field that differs structurally, with the snapshot
+ * value as old value and a copy of the current value (or AUDIT_REMOVED) as new value
+ */
+export function diffSnapshot(target: object, fields: Iterable<string>, snapshot: AuditSnapshot): ChangeRecord[] {
+    const changes: ChangeRecord[] = [];
+    const candidates = new Set<string>([...Object.keys(snapshot.values), ...fields]);
+    const now = auditClock.now();
+
+    for (const field of candidates) {
+        try {
+            const inSnapshot = Object.prototype.hasOwnProperty.call(snapshot.values, field);
+            const inTarget = field in target;
+            if (!inSnapshot && !inTarget) {
+                continue;
+            }
+
+            const oldValue = inSnapshot ? snapshot.values[field] : undefined;
+            const currentValue = inTarget ? Reflect.get(target, field) : AUDIT_REMOVED;
+            if (inSnapshot && inTarget && deepEqual(oldValue, currentValue)) {
+                continue;
+            }
+
+            changes.push(new ChangeRecordImpl(
+                field,
+                oldValue,
+                deepClone(currentValue),
+                auditClock.nextSequence(),
+                snapshot.takenAt,
+                now,
+                auditContextStore.current()
+            ));
+        } catch (error) {
+            auditLogger.error('Failed to compare field with snapshot', error, {
+                field,
+                targetConstructor: target.constructor?.name
+            });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Writes snapshot values back through the audit proxy so the restore is itself tracked
+ * Fields equal to their snapshot value are left untouched; tracked fields that did not
+ * exist when the snapshot was taken are deleted
+ */
+export function restoreSnapshot(receiver: object, target: object, fields: Iterable<string>, snapshot: AuditSnapshot): void {
+    for (const [field, value] of Object.entries(snapshot.values)) {
+        if (!(field in target) || !deepEqual(Reflect.get(target, field), value)) {
+            Reflect.set(receiver, field, deepClone(value));
+        }
+    }
+
+    for (const field of fields) {
+        if (!Object.prototype.hasOwnProperty.call(snapshot.values, field) && field in target) {
+            Reflect.deleteProperty(receiver, field);
+        }
+    }
+}
@@ -0,0 +1 @@
+export { takeSnapshot, diffSnapshot, restoreSnapshot } from './Snapshot';
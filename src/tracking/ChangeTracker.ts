@@ -1,12 +1,71 @@
-import {ChangeRecord, ChangeRecordImpl, ChangeTracker} from '../types';
-import {auditLogger} from '../utils';
+import {
+    AUDIT_REMOVED,
+    AuditChangeListener,
+    AuditContext,
+    ChangeRecord,
+    ChangeRecordImpl,
+    ChangeTracker,
+    ChangeTrackerOptions,
+    RejectedChange
+} from '../types';
+import {auditClock, auditLogger, haveSameElements, isArraySnapshot} from '../utils';
+import {auditContextStore} from '../context';
+import {isRedactedRecord, markRedacted} from '../redaction';
+
+/**
+ * Interned key of a change path
+ * Each segment is a Map key, so segments are compared with SameValueZero like Map and Set keys
+ */
+interface PathKey {
+    children: Map<unknown, PathKey>;
+}
+
+/**
+ * An applied change together with the undo group it belongs to
+ */
+interface JournalEntry {
+    record: ChangeRecord;
+    group: number;
+}
 
 /**
  * Implementation of ChangeTracker for managing field changes
  * Handles change collapsing and immutable change record creation
+ *
+ * Every change is captured as a journal entry. The collapsed view returned by
+ * getChanges() is a fold of the applied entries by path; in history mode the journal
+ * itself is retained as well, so both views always come from the same entries.
+ * Undo and redo move whole groups of entries between the applied entries and a redo
+ * stack. The journal stays append-only: undoing and redoing append compensating entries
+ * instead of removing the entries they undo.
  */
 export class ChangeTrackerImpl implements ChangeTracker {
-    private changes: Map<string, ChangeRecord> = new Map();
+    private changes: Map<PathKey, ChangeRecord> = new Map();
+    private pathKeys: PathKey = {children: new Map()};
+    private journal: ChangeRecord[] | undefined;
+    private applied: JournalEntry[] = [];
+    private redoStack: JournalEntry[][] = [];
+    private nextGroup = 0;
+    private openGroup: number | undefined;
+    private groupDepth = 0;
+    private listeners = new Set<AuditChangeListener>();
+    private rejected: RejectedChange[] = [];
+    private readonly netChanges: boolean;
+    private readonly isUnchanged: ChangeTrackerOptions['isUnchanged'];
+    private readonly redactorFor: ChangeTrackerOptions['redactorFor'];
+    private readonly isRestored: ChangeTrackerOptions['isRestored'];
+    private readonly context: AuditContext | undefined;
+    private readonly onChange: ChangeTrackerOptions['onChange'];
+
+    constructor(options: ChangeTrackerOptions = {}) {
+        this.journal = options.history ? [] : undefined;
+        this.netChanges = options.netChanges === true;
+        this.isUnchanged = options.isUnchanged;
+        this.redactorFor = options.redactorFor;
+        this.isRestored = options.isRestored;
+        this.context = options.context;
+        this.onChange = options.onChange;
+    }
 
     /**
      * Tracks a field change, implementing change collapsing logic
@@ -14,7 +73,7 @@ export class ChangeTrackerImpl implements ChangeTracker {
      * with the first old value and the last new value
      * Implements error resilience to never disrupt business logic
      */
-    trackChange(field: string, oldValue: unknown, newValue: unknown): void {
+    trackChange(field: string, oldValue: unknown, newValue: unknown, path: readonly unknown[] = [field]): void {
         try {
             // Input validation
             if (!field || field.length === 0) {
@@ -26,40 +85,27 @@ export class ChangeTrackerImpl implements ChangeTracker {
                 return;
             }
 
-            const existingChange = this.changes.get(field);
-
-            if (existingChange) {
-                try {
-                    // Change collapsing: keep the original old value, update to a new value
-                    const collapsedChange = new ChangeRecordImpl(
-                        field,
-                        existingChange.oldValue, // Keep the first old value
-                        newValue // Update to the latest new value
-                    );
-                    this.changes.set(field, collapsedChange);
-                } catch (collapseError) {
-                    auditLogger.error('Failed to collapse change record', collapseError, {
-                        field,
-                        hasExistingChange: true,
-                        existingOldValue: typeof existingChange.oldValue,
-                        newValueType: typeof newValue
-                    });
-                    // Continue without collapsing - keep the existing change
-                }
-            } else {
-                try {
-                    // First change for this field
-                    const newChange = new ChangeRecordImpl(field, oldValue, newValue);
-                    this.changes.set(field, newChange);
-                } catch (createError) {
-                    auditLogger.error('Failed to create new change record', createError, {
-                        field,
-                        oldValueType: typeof oldValue,
-                        newValueType: typeof newValue
-                    });
-                    // Silently continue - tracking failure should not affect business logic
-                }
+            let entry: ChangeRecord;
+            try {
+                entry = this.createRecord(field, oldValue, newValue, path);
+            } catch (createError) {
+                auditLogger.error('Failed to create new change record', createError, {
+                    field,
+                    oldValueType: typeof oldValue,
+                    newValueType: typeof newValue
+                });
+                // Silently continue - tracking failure should not affect business logic
+                return;
+            }
+
+            if (this.journal) {
+                this.journal.push(entry);
+                this.applied.push({record: entry, group: this.openGroup ?? ++this.nextGroup});
+                // A new change invalidates anything that was undone before it
+                this.redoStack = [];
             }
+            this.fold(entry);
+            this.notify(entry);
         } catch (error) {
             auditLogger.error('Critical error in trackChange', error, {
                 field,
@@ -91,6 +137,56 @@ export class ChangeTrackerImpl implements ChangeTracker {
         }
     }
 
+    /**
+     * Records a change that was rejected before it was applied
+     * Rejected changes are kept apart from the tracked changes and are not passed to listeners
+     */
+    reject(
+        field: string,
+        oldValue: unknown,
+        newValue: unknown,
+        reason: string | undefined,
+        path: readonly unknown[] = [field]
+    ): RejectedChange | undefined {
+        try {
+            const rejected: RejectedChange = Object.freeze({
+                change: this.createRecord(field, oldValue, newValue, path),
+                reason
+            });
+            this.rejected.push(rejected);
+            return rejected;
+        } catch (error) {
+            auditLogger.error('Failed to record rejected change', error, {
+                field
+            });
+            return undefined;
+        }
+    }
+
+    /**
+     * Returns every rejected change in the order it was attempted
+     */
+    getRejected(): RejectedChange[] {
+        return [...this.rejected];
+    }
+
+    /**
+     * Returns every individual change in journal order
+     * Returns an empty array when the tracker was not created in history mode
+     */
+    getHistory(): ChangeRecord[] {
+        try {
+            return this.journal ? [...this.journal] : [];
+        } catch (error) {
+            auditLogger.error('Failed to retrieve change history', error, {
+                journalType: typeof this.journal
+            });
+
+            // Graceful degradation: return an empty array
+            return [];
+        }
+    }
+
     /**
      * Resets all tracked changes
      * Used by optional reset functionality
@@ -99,6 +195,13 @@ export class ChangeTrackerImpl implements ChangeTracker {
     reset(): void {
         try {
             this.changes.clear();
+            this.pathKeys = {children: new Map()};
+            this.redoStack = [];
+            this.rejected = [];
+            this.applied = [];
+            if (this.journal) {
+                this.journal.length = 0;
+            }
         } catch (error) {
             auditLogger.error('Failed to reset change tracker', error, {
                 changesMapSize: this.changes?.size || 'unknown'
@@ -107,6 +210,7 @@ export class ChangeTrackerImpl implements ChangeTracker {
             // Attempt to recreate the changes map if clearing failed
             try {
                 this.changes = new Map();
+                this.journal = this.journal ? [] : undefined;
             } catch (recreateError) {
                 auditLogger.error('Failed to recreate changes map', recreateError);
                 // At this point, the tracker is in an invalid state
@@ -115,6 +219,189 @@ export class ChangeTrackerImpl implements ChangeTracker {
         }
     }
 
+    /**
+     * Resets the tracker and returns a function putting the detached changes back in front
+     * of the changes tracked since, as if the reset had not happened
+     * Lets a caller hand changes over while the object keeps changing, and take them back
+     * if the hand-over fails
+     */
+    detach(): () => void {
+        const changes = this.getChanges();
+        const journal = this.journal ? [...this.journal] : [];
+        const applied = this.applied;
+        const rejected = this.rejected;
+        this.reset();
+
+        return () => {
+            try {
+                this.rejected = [...rejected, ...this.rejected];
+                if (this.journal) {
+                    this.journal = [...journal, ...this.journal];
+                    this.applied = [...applied, ...this.applied];
+                    this.rebuild();
+                    return;
+                }
+
+                // Collapsing the changes tracked since onto the detached ones keeps their first old values
+                const since = this.getChanges();
+                this.changes = new Map();
+                for (const change of [...changes, ...since]) {
+                    this.fold(change);
+                }
+            } catch (error) {
+                auditLogger.error('Failed to reattach detached changes', error, {
+                    detachedChanges: changes.length
+                });
+            }
+        };
+    }
+
+    /**
+     * Drops all changes recorded for a field, including changes nested below it
+     * Used when a field is reverted so its records no longer describe the object
+     * The journal stays append-only: in history mode the revert is recorded as compensating
+     * changes from each new value back to its old value, like an undo
+     * Implements error resilience to never disrupt operation
+     */
+    discard(field: string): void {
+        try {
+            const reverted = this.applied.filter(entry => isFieldOrNested(entry.record.field, field));
+            if (this.journal) {
+                this.applied = this.applied.filter(entry => !isFieldOrNested(entry.record.field, field));
+                this.redoStack = [];
+            }
+            for (const [key, change] of Array.from(this.changes.entries())) {
+                if (isFieldOrNested(change.field, field)) {
+                    this.changes.delete(key);
+                }
+            }
+
+            for (let i = reverted.length - 1; i >= 0; i--) {
+                const {record} = reverted[i]!;
+                this.appendToJournal(record, record.newValue, record.oldValue);
+            }
+        } catch (error) {
+            auditLogger.error('Failed to discard field changes', error, {
+                field
+            });
+        }
+    }
+
+    /**
+     * Starts grouping subsequent changes into a single undoable step
+     * Groups may be nested; the outermost group defines the step
+     */
+    beginGroup(): void {
+        if (this.groupDepth++ === 0) {
+            this.openGroup = ++this.nextGroup;
+        }
+    }
+
+    /**
+     * Ends the group started by the matching beginGroup call
+     */
+    endGroup(): void {
+        if (this.groupDepth > 0 && --this.groupDepth === 0) {
+            this.openGroup = undefined;
+        }
+    }
+
+    /**
+     * Removes the latest group of changes from the collapsed view and keeps it for redo
+     * Returns the removed records in order so the caller can restore old values
+     * The journal records the undo as compensating changes from each new value back to
+     * its old value. Only available in history mode; returns an empty array otherwise
+     * A group holding redacted changes cannot be restored and is refused without change
+     */
+    undo(): ChangeRecord[] {
+        try {
+            const last = this.applied[this.applied.length - 1];
+            if (!this.journal || !last) {
+                return [];
+            }
+
+            const start = this.applied.findIndex(entry => entry.group === last.group);
+            if (!this.isRestorable(this.applied.slice(start), 'undo')) {
+                return [];
+            }
+            const undone = this.applied.splice(start);
+            this.redoStack.push(undone);
+            this.rebuild();
+
+            for (let i = undone.length - 1; i >= 0; i--) {
+                const {record} = undone[i]!;
+                this.appendToJournal(record, record.newValue, record.oldValue);
+            }
+
+            return undone.map(entry => entry.record);
+        } catch (error) {
+            auditLogger.error('Failed to undo changes', error, {
+                appliedLength: this.applied.length
+            });
+            return [];
+        }
+    }
+
+    /**
+     * Puts the most recently undone group of changes back into the collapsed view
+     * Returns the restored records in order so the caller can reapply new values
+     * The journal records the redo as the same changes made again
+     * A group holding redacted changes cannot be restored and is refused without change
+     */
+    redo(): ChangeRecord[] {
+        try {
+            const redone = this.redoStack[this.redoStack.length - 1];
+            if (!this.journal || !redone || !this.isRestorable(redone, 'redo')) {
+                return [];
+            }
+            this.redoStack.pop();
+
+            this.applied.push(...redone);
+            this.rebuild();
+
+            for (const {record} of redone) {
+                this.appendToJournal(record, record.oldValue, record.newValue);
+            }
+
+            return redone.map(entry => entry.record);
+        } catch (error) {
+            auditLogger.error('Failed to redo changes', error, {
+                redoStackSize: this.redoStack.length
+            });
+            return [];
+        }
+    }
+
+    /**
+     * Checks whether a group of entries holds the values needed to undo or redo it
+     * Redacted records only hold placeholders, so the refusal is logged instead
+     */
+    private isRestorable(entries: readonly JournalEntry[], operation: 'undo' | 'redo'): boolean {
+        const redacted = entries.find(entry => isRedactedRecord(entry.record));
+        if (redacted) {
+            auditLogger.warn('Cannot restore redacted changes, their values were not kept', {
+                operation,
+                field: redacted.record.field
+            });
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Checks if there is a group of changes that can be undone
+     */
+    canUndo(): boolean {
+        return this.applied.length > 0;
+    }
+
+    /**
+     * Checks if there is an undone group of changes that can be redone
+     */
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
     /**
      * Checks if any changes have been tracked
      * Implements error resilience to always return a valid boolean
@@ -131,4 +418,224 @@ export class ChangeTrackerImpl implements ChangeTracker {
             return false;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Subscribes a listener called with every change captured from now on
+     * Returns a function that removes the listener
+     */
+    subscribe(listener: AuditChangeListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Creates an immutable record of a change
+     * Sensitive values are redacted before they reach a record
+     */
+    private createRecord(field: string, oldValue: unknown, newValue: unknown, path: readonly unknown[]): ChangeRecord {
+        const redact = this.redactorFor?.(path);
+        const capturedAt = auditClock.now();
+        const record = new ChangeRecordImpl(
+            field,
+            redact ? redact(oldValue) : oldValue,
+            redact ? redact(newValue) : newValue,
+            auditClock.nextSequence(),
+            capturedAt,
+            capturedAt,
+            this.currentContext(),
+            path
+        );
+        return redact ? markRedacted(record) : record;
+    }
+
+    /**
+     * Returns the ambient audit context with the tracker's own context merged over it
+     */
+    private currentContext(): Readonly<AuditContext> | undefined {
+        const ambient = auditContextStore.current();
+        return this.context ? Object.freeze({...ambient, ...this.context}) : ambient;
+    }
+
+    /**
+     * Passes a captured record to the subscribed listeners, then to the onChange option
+     * Each listener is isolated: a failing listener is logged and never disrupts business logic
+     */
+    private notify(entry: ChangeRecord): void {
+        for (const listener of Array.from(this.listeners)) {
+            this.callListener(listener, entry);
+        }
+        if (this.onChange) {
+            this.callListener(this.onChange, entry);
+        }
+    }
+
+    private callListener(listener: AuditChangeListener, entry: ChangeRecord): void {
+        try {
+            listener(entry);
+        } catch (error) {
+            auditLogger.error('Change listener failed', error, {
+                field: entry.field
+            });
+        }
+    }
+
+    /**
+     * Recomputes the collapsed view from the applied entries
+     */
+    private rebuild(): void {
+        this.changes = new Map();
+        for (const entry of this.applied) {
+            this.fold(entry.record);
+        }
+    }
+
+    /**
+     * Appends a change made by undo or redo to the journal and passes it to the listeners
+     * The values come from an existing record and are already redacted
+     */
+    private appendToJournal(record: ChangeRecord, oldValue: unknown, newValue: unknown): void {
+        const capturedAt = auditClock.now();
+        const entry = new ChangeRecordImpl(
+            record.field,
+            oldValue,
+            newValue,
+            auditClock.nextSequence(),
+            capturedAt,
+            capturedAt,
+            this.currentContext(),
+            record.path
+        );
+        if (isRedactedRecord(record)) {
+            markRedacted(entry);
+        }
+        this.journal?.push(entry);
+        this.notify(entry);
+    }
+
+    /**
+     * Returns the interned key of a change path
+     * Paths are compared by their actual segments rather than the formatted field, so Map
+     * keys such as `1` and `'1'` or two distinct objects are never collapsed together
+     */
+    private keyOf(path: readonly unknown[]): PathKey {
+        let node = this.pathKeys;
+        for (const segment of path) {
+            let child = node.children.get(segment);
+            if (!child) {
+                child = {children: new Map()};
+                node.children.set(segment, child);
+            }
+            node = child;
+        }
+        return node;
+    }
+
+    /**
+     * Folds a journal entry into the collapsed view
+     * In net-change mode, a sensitive field that is back to its raw value at the last reset
+     * drops out of the view with everything nested below it
+     */
+    private fold(entry: ChangeRecord): void {
+        this.collapse(entry);
+
+        if (this.netChanges && isRedactedRecord(entry) && this.isRestored?.(entry.path)) {
+            const field = entry.path[0];
+            for (const [key, change] of Array.from(this.changes.entries())) {
+                if (change.path[0] === field) {
+                    this.changes.delete(key);
+                }
+            }
+        }
+    }
+
+    /**
+     * Collapses a journal entry into the change recorded for its path
+     * Keeps the first old value and capture time, and takes the new value, sequence,
+     * capture time and context of the entry. A collapsed change that ends equal to its
+     * first old value, according to the isUnchanged option or in net-change mode, drops
+     * out of the view.
+     */
+    private collapse(entry: ChangeRecord): void {
+        const key = this.keyOf(entry.path);
+        const existingChange = this.changes.get(key);
+
+        if (!existingChange) {
+            // First change for this field
+            this.changes.set(key, entry);
+            return;
+        }
+
+        try {
+            // Change collapsing: keep the original old value, update to a new value
+            const collapsedChange = new ChangeRecordImpl(
+                entry.field,
+                existingChange.oldValue, // Keep the first old value
+                entry.newValue, // Update to the latest new value
+                entry.sequence,
+                existingChange.firstChangedAt,
+                entry.lastChangedAt,
+                entry.context,
+                entry.path
+            );
+            if (isRedactedRecord(entry)) {
+                markRedacted(collapsedChange);
+            }
+
+            if (this.endsUnchanged(collapsedChange)) {
+                this.changes.delete(key);
+                return;
+            }
+            this.changes.set(key, collapsedChange);
+        } catch (collapseError) {
+            auditLogger.error('Failed to collapse change record', collapseError, {
+                field: entry.field,
+                hasExistingChange: true,
+                existingOldValue: typeof existingChange.oldValue,
+                newValueType: typeof entry.newValue
+            });
+            // Continue without collapsing - keep the existing change
+        }
+    }
+
+    /**
+     * Checks whether a collapsed change ends with a value equal to its first old value
+     * Redacted values cannot be compared, so redacted changes are left to the isRestored option
+     */
+    private endsUnchanged(change: ChangeRecord): boolean {
+        if (isRedactedRecord(change)) {
+            return false;
+        }
+        if (this.netChanges && sameNetValue(change.oldValue, change.newValue)) {
+            return true;
+        }
+        return this.isUnchanged?.(change.path, change.oldValue, change.newValue) === true;
+    }
+}
+
+/**
+ * Checks whether a collapsed change ends with the same value it started with
+ * Array snapshots recorded for in-place mutations are fresh copies, so they are compared
+ * element by element
+ */
+function sameNetValue(oldValue: unknown, newValue: unknown): boolean {
+    if (isArraySnapshot(oldValue) && isArraySnapshot(newValue)) {
+        return haveSameElements(oldValue, newValue);
+    }
+    return Object.is(presentValue(oldValue), presentValue(newValue));
+}
+
+/**
+ * Maps the removal marker to undefined so removing a value that was absent is a no-op
+ */
+function presentValue(value: unknown): unknown {
+    return value === AUDIT_REMOVED ? undefined : value;
+}
+
+/**
+ * Checks whether a recorded field path is the given field or nested below it
+ */
+export function isFieldOrNested(recorded: string, field: string): boolean {
+    return recorded === field || recorded.startsWith(`${field}.`) || recorded.startsWith(`${field}[`);
+}
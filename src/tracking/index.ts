@@ -1 +1 @@
-export { ChangeTrackerImpl } from './ChangeTracker';
\ No newline at end of file
+export { ChangeTrackerImpl, isFieldOrNested } from './ChangeTracker';
\ No newline at end of file
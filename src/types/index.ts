@@ -9,6 +9,77 @@ export interface AuditHandle {
      */
     changes(): ChangeRecord[];
 
+    /**
+     * Returns every individual change in the order it happened
+     * Only populated when the wrapper was created with the `history` option
+     */
+    history(): ChangeRecord[];
+
+    /**
+     * Restores every tracked field to its original value and clears the audit history
+     * Reverting does not produce new change records
+     */
+    revert(): void;
+
+    /**
+     * Restores a single field, including changes nested below it, to its original value
+     * and drops its change records
+     */
+    revertField(field: string): void;
+
+    /**
+     * Undoes the latest change, or the latest batch of changes
+     * Requires the `history` option; returns false when there is nothing to undo
+     */
+    undo(): boolean;
+
+    /**
+     * Reapplies the most recently undone change or batch
+     * Returns false when there is nothing to redo
+     */
+    redo(): boolean;
+
+    canUndo(): boolean;
+
+    canRedo(): boolean;
+
+    /**
+     * Runs a synchronous function and groups every change it makes into one undoable step
+     */
+    batch<R>(fn: () => R): R;
+
+    /**
+     * Captures the current values of all tracked fields
+     */
+    snapshot(): AuditSnapshot;
+
+    /**
+     * Writes the values of a snapshot back to the object
+     * The restore goes through the audit proxy and is recorded like any other change
+     */
+    restore(snapshot: AuditSnapshot): void;
+
+    /**
+     * Returns one change record per tracked field that differs from the snapshot
+     */
+    diffSince(snapshot: AuditSnapshot): ChangeRecord[];
+
+    /**
+     * Checks whether changes() currently reports any change
+     */
+    hasChanges(): boolean;
+
+    /**
+     * Subscribes a listener called synchronously with every change captured from now on
+     * Returns a function that removes the listener
+     */
+    onChange(listener: AuditChangeListener): () => void;
+
+    /**
+     * Returns every assignment or deletion rejected by a beforeChange guard, in order
+     */
+    rejectedChanges(): RejectedChange[];
+
     /**
      * Optional method to reset audit history without affecting the object state
      */
@@ -20,10 +91,170 @@ export interface AuditHandle {
  */
 export interface ChangeRecord {
     readonly field: string;
+    /**
+     * Structured path of the changed value, starting with the top-level field name
+     * Followed by property names, array indices, Map keys or Set members for nested changes
+     */
+    readonly path: readonly unknown[];
     readonly oldValue: unknown;
     readonly newValue: unknown;
+    /**
+     * Monotonic sequence number shared across all audited objects
+     * Collapsed records carry the sequence number of their latest change
+     */
+    readonly sequence: number;
+    /**
+     * Capture time of the first change to the field, in milliseconds since the epoch
+     */
+    readonly firstChangedAt: number;
+    /**
+     * Capture time of the latest change to the field, in milliseconds since the epoch
+     */
+    readonly lastChangedAt: number;
+    /**
+     * Ambient audit context active when the change was captured
+     * Collapsed records carry the context of their latest change
+     */
+    readonly context?: Readonly<AuditContext> | undefined;
+}
+
+/**
+ * An assignment or deletion that a beforeChange guard rejected
+ */
+export interface RejectedChange {
+    /**
+     * The change that was attempted, redacted like captured changes
+     */
+    readonly change: ChangeRecord;
+    /**
+     * Reason returned by the guard, if any
+     */
+    readonly reason: string | undefined;
+}
+
+/**
+ * Immutable capture of the tracked fields of an audited object at a point in time
+ */
+export interface AuditSnapshot {
+    /**
+     * Capture time in milliseconds since the epoch
+     */
+    readonly takenAt: number;
+    /**
+     * Deep-copied, frozen values keyed by field name
+     */
+    readonly values: Readonly<Record<string, unknown>>;
 }
 
+/**
+ * JSON-safe representation of a change record produced by serializeChanges()
+ */
+export interface SerializedChangeRecord {
+    field: string;
+    path: unknown[];
+    oldValue: unknown;
+    newValue: unknown;
+    /**
+     * Set when the change removed the field, Map entry or Set member
+     */
+    removed?: true;
+    sequence: number;
+    firstChangedAt: number;
+    lastChangedAt: number;
+    context?: unknown;
+}
+
+/**
+ * Converts a value into a JSON-safe representation
+ * `serialize` converts nested values with the registered serializers
+ */
+export type AuditSerializer<V = unknown> = (value: V, serialize: (value: unknown) => unknown) => unknown;
+
+/**
+ * Receives a change record as soon as it is captured
+ */
+export type AuditChangeListener = (change: ChangeRecord) => void;
+
+/**
+ * Receives every change captured by any audited object, together with that object
+ */
+export type AuditGlobalChangeListener = (change: ChangeRecord, audited: object) => void;
+
+/**
+ * Asynchronous stream of the changes captured by an audited object, created by changeStream()
+ */
+export interface AuditChangeStream extends AsyncIterableIterator<ChangeRecord> {
+    /**
+     * Stops capturing changes; iteration ends once the buffered changes have been consumed
+     */
+    close(): void;
+}
+
+/**
+ * Options accepted by changeStream()
+ */
+export interface AuditChangeStreamOptions {
+    /**
+     * Maximum number of changes kept while no consumer is waiting; the oldest are dropped
+     * beyond it. Defaults to 1000
+     */
+    bufferSize?: number;
+}
+
+/**
+ * A change about to be applied to a tracked field, passed to beforeChange guards
+ * `newValue` is AUDIT_REMOVED when the field is being deleted. Mutations nested inside
+ * a field are described like their change records, e.g. `address.city` or `roles[admin]`
+ */
+export interface AuditChangeAttempt {
+    readonly field: string;
+    readonly oldValue: unknown;
+    readonly newValue: unknown;
+    /**
+     * Structured path of the value, starting with the top-level field name
+     */
+    readonly path: readonly unknown[];
+}
+
+/**
+ * Decides whether a change may be applied
+ * Return `false`, or a string giving the reason, to reject the change
+ */
+export type AuditChangeGuard = (attempt: AuditChangeAttempt) => boolean | string | void;
+
+/**
+ * Decides whether two values of a field are equal, so an assignment is not a change
+ */
+export type AuditComparator<V = unknown> = (a: V, b: V) => boolean;
+
+/**
+ * A single RFC 6902 JSON Patch operation
+ */
+export type JsonPatchOperation =
+    | { op: 'add'; path: string; value: unknown }
+    | { op: 'replace'; path: string; value: unknown }
+    | { op: 'test'; path: string; value: unknown }
+    | { op: 'remove'; path: string }
+    | { op: 'move'; from: string; path: string }
+    | { op: 'copy'; from: string; path: string };
+
+/**
+ * Ambient information describing who or what is changing audited data
+ */
+export interface AuditContext {
+    actor?: string;
+    requestId?: string;
+    transactionId?: string;
+    tenant?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Marker used as the new value of a change when a field, Map entry or Set member was removed
+ * Distinguishes removal from an assignment of `undefined`
+ */
+export const AUDIT_REMOVED: unique symbol = Symbol.for('@snow-tzu/audit:removed');
+
 /**
  * Concrete implementation of ChangeRecord interface
  * Provides immutable change record data structure
@@ -32,13 +263,251 @@ export class ChangeRecordImpl implements ChangeRecord {
     constructor(
         public readonly field: string,
         public readonly oldValue: unknown,
-        public readonly newValue: unknown
+        public readonly newValue: unknown,
+        public readonly sequence: number,
+        public readonly firstChangedAt: number,
+        public readonly lastChangedAt: number,
+        public readonly context?: Readonly<AuditContext> | undefined,
+        public readonly path: readonly unknown[] = [field]
     ) {
         // Ensure immutability by freezing the object
+        Object.freeze(this.path);
         Object.freeze(this);
     }
 }
 
+/**
+ * Classification of how sensitive a field's data is
+ */
+export type AuditSensitivity = 'public' | 'internal' | 'confidential' | 'restricted';
+
+/**
+ * Options accepted by the @AuditField decorator
+ */
+export interface AuditFieldOptions {
+    /**
+     * Human-readable name of the field for audit logs and reports
+     */
+    label?: string;
+
+    /**
+     * Name of a group of related fields, such as `contact` or `billing`
+     */
+    group?: string;
+
+    /**
+     * Classification of the field's data; descriptive only, use `redact` to hide values
+     */
+    sensitivity?: AuditSensitivity;
+
+    /**
+     * Track mutations made inside nested plain objects held by this field
+     */
+    deep?: boolean;
+
+    /**
+     * Serializer used for this field's old and new values by serializeChanges()
+     */
+    serialize?: AuditSerializer;
+
+    /**
+     * Comparator deciding whether an assignment changes the field
+     * Takes precedence over the class default and comparators registered per type
+     */
+    equals?: AuditComparator;
+
+    /**
+     * Redact the field's values in change records; `true` replaces them with a placeholder
+     */
+    redact?: boolean | AuditRedactionStrategy;
+
+    /**
+     * Salt for the `hash` redaction strategy, overriding the global salt
+     */
+    salt?: string;
+
+    /**
+     * Guard deciding whether an assignment to the field may be applied
+     * Runs before the guard passed to Audit()
+     */
+    beforeChange?: AuditChangeGuard;
+
+    /**
+     * Reject every change to the field, like @AuditReadonly
+     */
+    readonly?: boolean;
+
+    /**
+     * Reject changes once the field holds a value other than undefined, like @AuditWriteOnce
+     */
+    writeOnce?: boolean;
+}
+
+/**
+ * How a sensitive field's values appear in change records
+ * `mask` keeps the last 4 characters, `hash` stores a salted SHA-256 hash and `omit`
+ * stores a placeholder
+ */
+export type AuditRedactionStrategy = 'mask' | 'hash' | 'omit';
+
+/**
+ * Options accepted by the @AuditSensitive decorator
+ */
+export interface AuditSensitiveOptions {
+    /**
+     * Defaults to `omit`
+     */
+    strategy?: AuditRedactionStrategy;
+
+    /**
+     * Salt for the `hash` strategy, overriding the global salt
+     */
+    salt?: string;
+}
+
+/**
+ * Options accepted by the @Auditable decorator
+ */
+export interface AuditableOptions {
+    /**
+     * Human-readable name of the entity for audit logs and reports
+     */
+    label?: string;
+
+    /**
+     * Track only these fields, instead of every enumerable field of the instance
+     * Fields decorated with @AuditField are tracked as well
+     */
+    include?: string[];
+
+    /**
+     * Never track these fields, like @AuditIgnore
+     */
+    exclude?: string[];
+
+    /**
+     * Default comparator for every top-level field of the class without its own comparator
+     */
+    equals?: AuditComparator;
+}
+
+/**
+ * Programmatic audit configuration for a class, equivalent to its decorators
+ */
+export interface AuditConfiguration<T> {
+    /**
+     * Fields to track, like @AuditField; either a list of names or per-field options
+     */
+    fields?: ReadonlyArray<keyof T & string> | { [K in keyof T & string]?: AuditFieldOptions };
+
+    /**
+     * Fields never to track, like @AuditIgnore
+     */
+    ignore?: ReadonlyArray<keyof T & string>;
+
+    /**
+     * Track every field of the class, like @Auditable; pass options to configure it
+     */
+    classLevel?: boolean | AuditableOptions;
+}
+
+/**
+ * Options accepted by the Audit function for a single wrapped object
+ */
+export interface AuditOptions<T = Record<string, unknown>> {
+    /**
+     * Track these fields in addition to the fields configured for the class
+     * The only way to track fields of plain object literals
+     */
+    fields?: ReadonlyArray<keyof T & string>;
+
+    /**
+     * Never track these fields, whatever the class configuration says
+     */
+    ignore?: ReadonlyArray<keyof T & string>;
+
+    /**
+     * Override class-level tracking for this wrapper: `true` tracks every field, like
+     * @Auditable, and `false` tracks only fields configured individually
+     * Fields ignored by the class stay ignored
+     */
+    trackAll?: boolean;
+
+    /**
+     * Track mutations made inside nested plain objects of every tracked field
+     */
+    deep?: boolean;
+
+    /**
+     * Keep an ordered, append-only journal of every individual change, exposed through history()
+     */
+    history?: boolean;
+
+    /**
+     * Report net changes only: a field whose final value equals its first old value,
+     * using the configured comparator, is removed from changes()
+     */
+    netChanges?: boolean;
+
+    /**
+     * Context attached to every change of this wrapper, merged over the ambient audit context
+     */
+    context?: AuditContext;
+
+    /**
+     * Called synchronously with every change captured by this wrapper
+     * Errors thrown by the listener are logged and never reach the code making the change
+     */
+    onChange?: AuditChangeListener;
+
+    /**
+     * Guard deciding whether an assignment to or deletion of a tracked field may be applied
+     * Runs after the guards declared on the field
+     */
+    beforeChange?: AuditChangeGuard;
+
+    /**
+     * What a rejected change does: `throw` an AuditVetoError (the default) or `ignore`
+     * the assignment silently. Rejected changes are available through rejectedChanges() either way
+     */
+    onVeto?: 'throw' | 'ignore';
+}
+
+/**
+ * Identifies an object tracked by an AuditSession
+ */
+export interface AuditEntityRef {
+    entityType: string;
+    /**
+     * Identifier of the entity; may be omitted for entities that do not have one yet
+     */
+    id?: string | number;
+}
+
+/**
+ * The changes of one entity tracked by an AuditSession
+ */
+export interface AuditEntityChanges {
+    readonly entityType: string;
+    readonly id: string | number | undefined;
+    readonly changes: ChangeRecord[];
+}
+
+/**
+ * Receives the changes of an AuditSession when it is committed
+ */
+export type AuditSink = (changes: AuditEntityChanges[]) => void | Promise<void>;
+
+/**
+ * Options accepted by the AuditSession constructor
+ */
+export interface AuditSessionOptions {
+    /**
+     * Sinks the changes are flushed to on commit, in order
+     */
+    sinks?: AuditSink[];
+}
+
 // Internal interfaces for library implementation
 
 /**
@@ -47,40 +516,125 @@ export class ChangeRecordImpl implements ChangeRecord {
 export interface AuditMetadata {
     trackedFields: Set<string>;
     ignoredFields: Set<string>;
+    fieldOptions: Map<string, AuditFieldOptions>;
     classLevelAudit: boolean;
+    classOptions: AuditableOptions;
 }
 
+/**
+ * Where decorator metadata is stored: a class constructor, or the metadata object that
+ * standard decorators receive as `context.metadata`
+ */
+export type MetadataTarget = Function | Record<PropertyKey, unknown>;
+
 /**
  * Interface for managing decorator metadata
  */
 export interface MetadataManager {
-    getTrackedFields(target: object): Set<string>;
+    getTrackedFields(target: object, classLevel?: boolean): Set<string>;
+
+    isFieldTracked(target: object, field: string, classLevel?: boolean): boolean;
+
+    setFieldTracking(target: MetadataTarget, field: string, track: boolean): void;
+
+    setClassLevelAudit(target: MetadataTarget, enabled: boolean): void;
+
+    setFieldIgnored(target: MetadataTarget, field: string, ignored: boolean): void;
 
-    isFieldTracked(target: object, field: string): boolean;
+    getFieldOptions(target: object, field: string): AuditFieldOptions;
 
-    setFieldTracking(target: Function, field: string, track: boolean): void;
+    setFieldOptions(target: MetadataTarget, field: string, options: AuditFieldOptions): void;
 
-    setClassLevelAudit(target: Function, enabled: boolean): void;
+    getClassOptions(target: object): AuditableOptions;
 
-    setFieldIgnored(target: Function, field: string, ignored: boolean): void;
+    setClassOptions(target: MetadataTarget, options: AuditableOptions): void;
+}
+
+/**
+ * Options for a single change tracker
+ */
+export interface ChangeTrackerOptions {
+    /**
+     * Retain the full journal of individual changes instead of only the collapsed view
+     */
+    history?: boolean;
+
+    /**
+     * Drop collapsed changes whose final value is the same value as their first old value
+     * A removal and `undefined` are both treated as the absence of a value
+     */
+    netChanges?: boolean;
+
+    /**
+     * Decides whether a collapsed change ends where it started, in which case it is dropped
+     * from the collapsed view
+     */
+    isUnchanged?: (path: readonly unknown[], oldValue: unknown, newValue: unknown) => boolean;
+
+    /**
+     * Returns the function redacting values captured at a path, if the path is sensitive
+     * Redaction happens before a record is created, so raw values are never retained
+     */
+    redactorFor?: (path: readonly unknown[]) => ((value: unknown) => unknown) | undefined;
+
+    /**
+     * Decides whether the sensitive field at the start of a path is back to its raw value
+     * at the last reset. Redacted records cannot be compared, so in net-change mode this
+     * decides whether the changes of a sensitive field drop out of the collapsed view
+     */
+    isRestored?: (path: readonly unknown[]) => boolean;
+
+    /**
+     * Context merged over the ambient audit context of every captured change
+     */
+    context?: AuditContext | undefined;
+
+    /**
+     * Called with every captured change record after the subscribed listeners
+     */
+    onChange?: AuditChangeListener | undefined;
 }
 
 /**
  * Interface for tracking field changes
  */
 export interface ChangeTracker {
-    trackChange(field: string, oldValue: unknown, newValue: unknown): void;
+    trackChange(field: string, oldValue: unknown, newValue: unknown, path?: readonly unknown[]): void;
 
     getChanges(): ChangeRecord[];
 
+    getHistory(): ChangeRecord[];
+
+    discard(field: string): void;
+
+    beginGroup(): void;
+
+    endGroup(): void;
+
+    undo(): ChangeRecord[];
+
+    redo(): ChangeRecord[];
+
+    canUndo(): boolean;
+
+    canRedo(): boolean;
+
     reset(): void;
 
+    detach(): () => void;
+
     hasChanges(): boolean;
+
+    reject(field: string, oldValue: unknown, newValue: unknown, reason: string | undefined, path?: readonly unknown[]): RejectedChange | undefined;
+
+    getRejected(): RejectedChange[];
+
+    subscribe(listener: AuditChangeListener): () => void;
 }
 
 /**
  * Interface for creating audit-enabled proxy objects
  */
 export interface ProxyFactory {
-    createAuditProxy<T extends object>(target: T): T & AuditHandle;
+    createAuditProxy<T extends object>(target: T, options?: AuditOptions<T>): T & AuditHandle;
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+/**
+ * Array copies recorded as old and new values of in-place array mutations
+ */
+const arraySnapshots = new WeakSet<unknown[]>();
+
+/**
+ * Copies an array and registers the copy as a snapshot
+ */
+export function snapshotArray(array: unknown[]): unknown[] {
+    const snapshot = array.slice();
+    arraySnapshots.add(snapshot);
+    return snapshot;
+}
+
+/**
+ * Checks whether a value is an array snapshot taken while recording an in-place mutation
+ * Snapshots are restored into the live array rather than replacing it
+ */
+export function isArraySnapshot(value: unknown): value is unknown[] {
+    return Array.isArray(value) && arraySnapshots.has(value);
+}
+
+/**
+ * Compares two arrays element by element using the Object.is same-value rule
+ */
+export function haveSameElements(a: unknown[], b: unknown[]): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+
+    for (let i = 0; i < a.length; i++) {
+        if (!Object.is(a[i], b[i])) {
+            return false;
+        }
+    }
+    return true;
+}
@@ -0,0 +1,55 @@
+import {auditLogger} from './logger';
+
+/**
+ * Function returning the current time in milliseconds since the Unix epoch
+ */
+export type AuditClock = () => number;
+
+/**
+ * Source of capture timestamps and sequence numbers for change records
+ * Sequence numbers are shared by all trackers so changes can be ordered across objects
+ */
+class AuditClockSource {
+    private clock: AuditClock = Date.now;
+    private sequence = 0;
+
+    /**
+     * Replace the clock used for timestamps, or restore the system clock
+     */
+    configure(clock: AuditClock | undefined): void {
+        this.clock = clock ?? Date.now;
+    }
+
+    /**
+     * Returns the current capture time
+     * Falls back to the system clock if a custom clock fails
+     */
+    now(): number {
+        try {
+            return this.clock();
+        } catch (error) {
+            auditLogger.error('Audit clock failed, falling back to system time', error);
+            return Date.now();
+        }
+    }
+
+    /**
+     * Returns the next monotonic sequence number
+     */
+    nextSequence(): number {
+        return ++this.sequence;
+    }
+}
+
+/**
+ * Singleton clock instance for use throughout the library
+ */
+export const auditClock = new AuditClockSource();
+
+/**
+ * Set the clock used to timestamp change records
+ * Useful for deterministic tests; call without arguments to restore the system clock
+ */
+export function setAuditClock(clock?: AuditClock): void {
+    auditClock.configure(clock);
+}
@@ -1,2 +1,6 @@
 // Internal utilities for the audit library
-export { auditLogger, enableAuditLogging, disableAuditLogging, LogLevel } from './logger';
\ No newline at end of file
+export { auditLogger, enableAuditLogging, disableAuditLogging, LogLevel } from './logger';
+export { auditClock, setAuditClock } from './clock';
+export type { AuditClock } from './clock';
+export { deepClone, deepEqual, isPlainObject } from './objects';
+export { haveSameElements, isArraySnapshot, snapshotArray } from './arrays';
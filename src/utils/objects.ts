@@ -0,0 +1,174 @@
+/**
+ * Internal object inspection helpers shared across the audit library
+ */
+
+/**
+ * Checks whether a value is a plain object literal (or a null-prototype object)
+ * Class instances and built-in objects are deliberately excluded
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (value === null || typeof value !== 'object') {
+        return false;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Structural equality used to compare captured values
+ * Handles primitives (using the Object.is same-value rule), Dates, arrays, Maps, Sets,
+ * plain objects and class instances with the same prototype, including circular graphs
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+    return compareDeep(a, b, new WeakMap());
+}
+
+/**
+ * Creates a structural copy of a value
+ * Copies Dates, arrays, Maps, Sets, plain objects and class instances (keeping their
+ * prototype) and preserves circular references. Functions and primitives are shared.
+ * When `freeze` is set, every copied object is frozen as well, including the entries of
+ * Maps and Sets and the time of Dates.
+ */
+export function deepClone<V>(value: V, freeze: boolean = false): V {
+    return cloneDeep(value, freeze, new WeakMap()) as V;
+}
+
+function compareDeep(a: unknown, b: unknown, seen: WeakMap<object, object>): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+        return false;
+    }
+    if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+        return false;
+    }
+
+    // Assume equality for pairs already being compared to terminate cycles
+    if (seen.get(a) === b) {
+        return true;
+    }
+    seen.set(a, b);
+
+    const equal = compareObjects(a, b, seen);
+    if (!equal) {
+        seen.delete(a);
+    }
+    return equal;
+}
+
+function compareObjects(a: object, b: object, seen: WeakMap<object, object>): boolean {
+    if (a instanceof Date) {
+        return Object.is(a.getTime(), (b as Date).getTime());
+    }
+    if (Array.isArray(a)) {
+        const other = b as unknown[];
+        return a.length === other.length && a.every((item, i) => compareDeep(item, other[i], seen));
+    }
+    if (a instanceof Map) {
+        const other = b as Map<unknown, unknown>;
+        if (a.size !== other.size) {
+            return false;
+        }
+        for (const [key, item] of a) {
+            if (!other.has(key) || !compareDeep(item, other.get(key), seen)) {
+                return false;
+            }
+        }
+        return true;
+    }
+    if (a instanceof Set) {
+        const other = b as Set<unknown>;
+        if (a.size !== other.size) {
+            return false;
+        }
+        for (const item of a) {
+            if (!other.has(item) && !Array.from(other).some(candidate => compareDeep(item, candidate, seen))) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) {
+        return false;
+    }
+    return keysA.every(key =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        compareDeep((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], seen)
+    );
+}
+
+function cloneDeep(value: unknown, freeze: boolean, seen: WeakMap<object, unknown>): unknown {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (seen.has(value)) {
+        return seen.get(value);
+    }
+
+    let copy: object;
+    if (value instanceof Date) {
+        copy = new Date(value.getTime());
+        seen.set(value, copy);
+    } else if (Array.isArray(value)) {
+        const array: unknown[] = [];
+        seen.set(value, array);
+        for (const item of value) {
+            array.push(cloneDeep(item, freeze, seen));
+        }
+        copy = array;
+    } else if (value instanceof Map) {
+        const map = new Map<unknown, unknown>();
+        seen.set(value, map);
+        for (const [key, item] of value) {
+            map.set(key, cloneDeep(item, freeze, seen));
+        }
+        copy = map;
+    } else if (value instanceof Set) {
+        const set = new Set<unknown>();
+        seen.set(value, set);
+        for (const item of value) {
+            set.add(cloneDeep(item, freeze, seen));
+        }
+        copy = set;
+    } else {
+        const object = Object.create(Object.getPrototypeOf(value)) as Record<string, unknown>;
+        seen.set(value, object);
+        for (const key of Object.keys(value)) {
+            object[key] = cloneDeep((value as Record<string, unknown>)[key], freeze, seen);
+        }
+        copy = object;
+    }
+
+    return freeze ? freezeCopy(copy) : copy;
+}
+
+/**
+ * Methods that mutate the internal state of built-in objects, which Object.freeze does not protect
+ */
+const INTERNAL_MUTATORS: ReadonlyArray<[Function, readonly string[]]> = [
+    [Map, ['set', 'delete', 'clear']],
+    [Set, ['add', 'delete', 'clear']],
+    [Date, Object.getOwnPropertyNames(Date.prototype).filter(name => name.startsWith('set'))]
+];
+
+/**
+ * Freezes a copied object, replacing the mutators of Maps, Sets and Dates with methods
+ * that throw like writes to frozen objects in strict mode
+ */
+function freezeCopy(copy: object): object {
+    const mutators = INTERNAL_MUTATORS.find(([type]) => copy instanceof type)?.[1] ?? [];
+    for (const name of mutators) {
+        Object.defineProperty(copy, name, {
+            value: () => {
+                throw new TypeError(`Cannot call ${name} on a frozen ${copy.constructor.name}`);
+            }
+        });
+    }
+    return Object.freeze(copy);
+}
@@ -0,0 +1,80 @@
+import {AuditChangeAttempt, AuditChangeGuard, AuditFieldOptions, RejectedChange} from '../types';
+import {metadataManager} from '../metadata';
+import {auditLogger} from '../utils';
+
+/**
+ * Thrown when a beforeChange guard rejects an assignment or deletion
+ * The rejected change carries redacted values, like the records of captured changes
+ */
+export class AuditVetoError extends Error {
+    constructor(public readonly rejected: RejectedChange) {
+        super(`Change to "${rejected.change.field}" was rejected${rejected.reason ? `: ${rejected.reason}` : ''}`);
+        this.name = 'AuditVetoError';
+    }
+
+    get field(): string {
+        return this.rejected.change.field;
+    }
+
+    get reason(): string | undefined {
+        return this.rejected.reason;
+    }
+}
+
+/**
+ * Outcome of a guard that rejected a change
+ */
+export interface Veto {
+    reason: string | undefined;
+}
+
+/**
+ * Checks the read-only and write-once options of a field
+ * A write-once field is unset while it holds undefined or null; a mutation nested inside
+ * a field means the field already holds a value
+ */
+function immutabilityVeto(options: AuditFieldOptions, attempt: AuditChangeAttempt): Veto | undefined {
+    if (options.readonly) {
+        return {reason: 'field is read-only'};
+    }
+    if (options.writeOnce && (attempt.path.length > 1 || (attempt.oldValue !== undefined && attempt.oldValue !== null))) {
+        return {reason: 'field can only be written once'};
+    }
+    return undefined;
+}
+
+/**
+ * Checks the immutability of the field, then runs its guard and the guard of the proxy
+ * Nested mutations are checked against the options of the top-level field they belong to.
+ * Returns the veto of the first guard rejecting the change, or undefined when it may be applied.
+ * A guard that throws rejects the change with the error message as reason, so a broken
+ * rule never lets a change through.
+ */
+export function checkGuards(target: object, attempt: AuditChangeAttempt, proxyGuard?: AuditChangeGuard): Veto | undefined {
+    const fieldOptions = metadataManager.getFieldOptions(target, String(attempt.path[0]));
+    const immutable = immutabilityVeto(fieldOptions, attempt);
+    if (immutable) {
+        return immutable;
+    }
+
+    for (const guard of [fieldOptions.beforeChange, proxyGuard]) {
+        if (!guard) {
+            continue;
+        }
+        try {
+            const result = guard(attempt);
+            if (result === false) {
+                return {reason: undefined};
+            }
+            if (typeof result === 'string') {
+                return {reason: result};
+            }
+        } catch (error) {
+            auditLogger.error('Change guard failed', error, {
+                field: attempt.field
+            });
+            return {reason: error instanceof Error ? error.message : String(error)};
+        }
+    }
+    return undefined;
+}
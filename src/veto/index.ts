@@ -0,0 +1,2 @@
+export { AuditVetoError, checkGuards } from './ChangeGuard';
+export type { Veto } from './ChangeGuard';
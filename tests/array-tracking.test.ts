@@ -0,0 +1,165 @@
+import {Audit, AuditField, Auditable} from '../src';
+
+describe('Array Mutation Tracking', () => {
+    class Order {
+        @AuditField()
+        items: string[] = ['a', 'b', 'c'];
+
+        notes: string[] = [];
+    }
+
+    describe('mutator methods', () => {
+        it('should record push as a before/after snapshot of the field', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.items.push('d');
+
+            const changes = wrapped.changes();
+            expect(changes).toHaveLength(1);
+            expect(changes[0]).toMatchObject({field: 'items', oldValue: ['a', 'b', 'c'], newValue: ['a', 'b', 'c', 'd']});
+        });
+
+        it('should collapse several mutations into one record', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.items.push('d');
+            wrapped.items.splice(0, 1);
+            wrapped.items.sort((x, y) => y.localeCompare(x));
+
+            const changes = wrapped.changes();
+            expect(changes).toHaveLength(1);
+            expect(changes[0]).toMatchObject({field: 'items', oldValue: ['a', 'b', 'c'], newValue: ['d', 'c', 'b']});
+        });
+
+        it('should not record mutations that leave the array unchanged', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.items.sort();
+            wrapped.items.splice(0, 0);
+            wrapped.items.fill('b', 1, 2);
+
+            expect(wrapped.changes()).toHaveLength(0);
+        });
+
+        it('should preserve method results and chaining', () => {
+            const wrapped = Audit(new Order());
+
+            expect(wrapped.items.push('d')).toBe(4);
+            expect(wrapped.items.pop()).toBe('d');
+            expect(wrapped.items.reverse()).toBe(wrapped.items);
+            expect(wrapped.items.map(x => x.toUpperCase())).toEqual(['C', 'B', 'A']);
+        });
+
+        it('should snapshot values so later mutations do not alter earlier records', () => {
+            const order = new Order();
+            const wrapped = Audit(order);
+
+            wrapped.items.push('d');
+            const recorded = wrapped.changes()[0]?.newValue;
+            order.items.push('e');
+
+            expect(recorded).toEqual(['a', 'b', 'c', 'd']);
+            expect(recorded).not.toBe(order.items);
+        });
+    });
+
+    describe('index and length assignment', () => {
+        it('should record index assignment', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.items[1] = 'x';
+
+            expect(wrapped.changes()[0]).toMatchObject({field: 'items', oldValue: ['a', 'b', 'c'], newValue: ['a', 'x', 'c']});
+        });
+
+        it('should follow the same-value rule for index assignment', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.items[1] = 'b';
+
+            expect(wrapped.changes()).toHaveLength(0);
+        });
+
+        it('should record length truncation', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.items.length = 1;
+
+            expect(wrapped.changes()[0]).toMatchObject({oldValue: ['a', 'b', 'c'], newValue: ['a']});
+        });
+    });
+
+    describe('field semantics', () => {
+        it('should keep the original array identity on the target', () => {
+            const order = new Order();
+            const items = order.items;
+            const wrapped = Audit(order);
+
+            wrapped.items.push('d');
+
+            expect(order.items).toBe(items);
+            expect(Array.isArray(wrapped.items)).toBe(true);
+            expect(wrapped.items).toBe(wrapped.items);
+        });
+
+        it('should combine reassignment and mutation into one record', () => {
+            const order = new Order();
+            const original = order.items;
+            const wrapped = Audit(order);
+
+            wrapped.items = ['x'];
+            wrapped.items.push('y');
+
+            const changes = wrapped.changes();
+            expect(changes).toHaveLength(1);
+            expect(changes[0]?.oldValue).toBe(original);
+            expect(changes[0]?.newValue).toEqual(['x', 'y']);
+        });
+
+        it('should not track arrays of untracked fields', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.notes.push('internal');
+
+            expect(wrapped.changes()).toHaveLength(0);
+        });
+
+        it('should track arrays under class-level audit', () => {
+            @Auditable()
+            class Basket {
+                skus: number[] = [1, 2];
+            }
+
+            const wrapped = Audit(new Basket());
+            wrapped.skus.unshift(0);
+
+            expect(wrapped.changes()[0]).toMatchObject({field: 'skus', oldValue: [1, 2], newValue: [0, 1, 2]});
+        });
+    });
+
+    describe('deep mode', () => {
+        it('should track arrays nested in deep-tracked objects', () => {
+            class Profile {
+                @AuditField({deep: true})
+                contact = {phones: ['111']};
+            }
+
+            const wrapped = Audit(new Profile());
+            wrapped.contact.phones.push('222');
+
+            expect(wrapped.changes()[0]).toMatchObject({field: 'contact.phones', oldValue: ['111'], newValue: ['111', '222']});
+        });
+
+        it('should track element properties with indexed paths', () => {
+            class Cart {
+                @AuditField({deep: true})
+                lines = [{sku: 'A', qty: 1}, {sku: 'B', qty: 2}];
+            }
+
+            const wrapped = Audit(new Cart());
+            wrapped.lines[1]!.qty = 5;
+
+            expect(wrapped.changes()[0]).toMatchObject({field: 'lines[1].qty', oldValue: 2, newValue: 5});
+        });
+    });
+});
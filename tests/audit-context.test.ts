@@ -0,0 +1,96 @@
+import {Audit, AuditField, getAuditContext, runWithAuditContext} from '../src';
+
+describe('Audit Context', () => {
+    class User {
+        @AuditField()
+        email: string = 'old@example.com';
+
+        @AuditField()
+        name: string = 'Old';
+    }
+
+    it('should have no context outside runWithAuditContext', () => {
+        const wrapped = Audit(new User());
+
+        wrapped.email = 'new@example.com';
+
+        expect(getAuditContext()).toBeUndefined();
+        expect(wrapped.changes()[0]?.context).toBeUndefined();
+    });
+
+    it('should capture the ambient context on change records', () => {
+        const wrapped = Audit(new User());
+
+        runWithAuditContext({actor: 'alice', requestId: 'req-1'}, () => {
+            wrapped.email = 'new@example.com';
+        });
+
+        expect(wrapped.changes()[0]?.context).toEqual({actor: 'alice', requestId: 'req-1'});
+    });
+
+    it('should keep the context across awaits', async () => {
+        const wrapped = Audit(new User());
+
+        await runWithAuditContext({actor: 'bob', tenant: 'acme'}, async () => {
+            await new Promise(resolve => setTimeout(resolve, 1));
+            wrapped.name = 'New';
+        });
+
+        expect(wrapped.changes()[0]?.context).toMatchObject({actor: 'bob', tenant: 'acme'});
+    });
+
+    it('should isolate concurrent contexts', async () => {
+        const first = Audit(new User());
+        const second = Audit(new User());
+
+        await Promise.all([
+            runWithAuditContext({requestId: 'a'}, async () => {
+                await new Promise(resolve => setTimeout(resolve, 5));
+                first.name = 'A';
+            }),
+            runWithAuditContext({requestId: 'b'}, async () => {
+                second.name = 'B';
+            })
+        ]);
+
+        expect(first.changes()[0]?.context?.requestId).toBe('a');
+        expect(second.changes()[0]?.context?.requestId).toBe('b');
+    });
+
+    it('should merge nested contexts with inner values taking precedence', () => {
+        runWithAuditContext({actor: 'alice', requestId: 'req-1'}, () => {
+            runWithAuditContext({transactionId: 'txn-9', requestId: 'req-2'}, () => {
+                expect(getAuditContext()).toEqual({actor: 'alice', requestId: 'req-2', transactionId: 'txn-9'});
+            });
+            expect(getAuditContext()).toEqual({actor: 'alice', requestId: 'req-1'});
+        });
+    });
+
+    it('should carry the context of the latest change on collapsed records', () => {
+        const wrapped = Audit(new User(), {history: true});
+
+        runWithAuditContext({actor: 'alice'}, () => {
+            wrapped.email = 'first@example.com';
+        });
+        runWithAuditContext({actor: 'bob'}, () => {
+            wrapped.email = 'second@example.com';
+        });
+
+        expect(wrapped.history().map(r => r.context?.actor)).toEqual(['alice', 'bob']);
+        expect(wrapped.changes()[0]?.context?.actor).toBe('bob');
+    });
+
+    it('should freeze the captured context', () => {
+        const wrapped = Audit(new User());
+
+        runWithAuditContext({actor: 'alice'}, () => {
+            wrapped.email = 'new@example.com';
+        });
+
+        expect(Object.isFrozen(wrapped.changes()[0]?.context)).toBe(true);
+    });
+
+    it('should return the value of the wrapped function', () => {
+        expect(runWithAuditContext({actor: 'alice'}, () => 42)).toBe(42);
+    });
+});
@@ -0,0 +1,127 @@
+import {Audit, Auditable, AuditField, AuditIgnore, ChangeRecord, runWithAuditContext} from '../src';
+
+describe('Per-call Audit Options', () => {
+    @Auditable()
+    class Product {
+        name = 'Lamp';
+        price = 10;
+        importedAt = 0;
+
+        @AuditIgnore()
+        cache = '';
+    }
+
+    class Order {
+        @AuditField()
+        status = 'open';
+
+        note = '';
+    }
+
+    describe('trackAll', () => {
+        it('should track every field of a class without class-level audit', () => {
+            const wrapped = Audit(new Order(), {trackAll: true});
+
+            wrapped.status = 'shipped';
+            wrapped.note = 'left at door';
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['status', 'note']);
+        });
+
+        it('should disable class-level tracking when false', () => {
+            const wrapped = Audit(new Product(), {trackAll: false, fields: ['price']});
+
+            wrapped.name = 'Desk Lamp';
+            wrapped.price = 12;
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['price']);
+        });
+
+        it('should keep fields ignored by the class ignored', () => {
+            const wrapped = Audit(new Product(), {trackAll: true});
+
+            wrapped.cache = 'warm';
+
+            expect(wrapped.hasChanges()).toBe(false);
+        });
+
+        it('should let ignore take precedence over fields and trackAll', () => {
+            const wrapped = Audit(new Order(), {trackAll: true, fields: ['note'], ignore: ['note']});
+
+            wrapped.note = 'fragile';
+
+            expect(wrapped.hasChanges()).toBe(false);
+            expect(Object.keys(wrapped.snapshot().values)).toEqual(['status']);
+        });
+
+        it('should audit the same class differently per wrapper', () => {
+            const bulkImport = Audit(new Product(), {ignore: ['importedAt']});
+            const userEdit = Audit(new Product());
+
+            bulkImport.importedAt = 1;
+            userEdit.importedAt = 1;
+
+            expect(bulkImport.hasChanges()).toBe(false);
+            expect(userEdit.hasChanges()).toBe(true);
+        });
+    });
+
+    describe('context', () => {
+        it('should attach the wrapper context to every change', () => {
+            const wrapped = Audit(new Order(), {context: {source: 'bulk-import'}});
+
+            wrapped.status = 'closed';
+
+            expect(wrapped.changes()[0]?.context).toEqual({source: 'bulk-import'});
+        });
+
+        it('should merge the wrapper context over the ambient context', () => {
+            const wrapped = Audit(new Order(), {context: {source: 'bulk-import', actor: 'importer'}});
+
+            runWithAuditContext({actor: 'alice', requestId: 'req-1'}, () => {
+                wrapped.status = 'closed';
+            });
+
+            expect(wrapped.changes()[0]?.context).toEqual({
+                actor: 'importer',
+                requestId: 'req-1',
+                source: 'bulk-import'
+            });
+        });
+    });
+
+    describe('onChange', () => {
+        it('should be called with every captured change', () => {
+            const seen: ChangeRecord[] = [];
+            const wrapped = Audit(new Order(), {onChange: change => seen.push(change)});
+
+            wrapped.status = 'packed';
+            wrapped.status = 'shipped';
+
+            expect(seen.map(change => change.newValue)).toEqual(['packed', 'shipped']);
+        });
+
+        it('should not be called for assignments of the same value', () => {
+            const onChange = jest.fn();
+            const wrapped = Audit(new Order(), {onChange});
+
+            wrapped.status = 'open';
+
+            expect(onChange).not.toHaveBeenCalled();
+        });
+
+        it('should isolate errors thrown by the listener', () => {
+            const wrapped = Audit(new Order(), {
+                onChange: () => {
+                    throw new Error('listener failed');
+                }
+            });
+
+            expect(() => {
+                wrapped.status = 'closed';
+            }).not.toThrow();
+            expect(wrapped.status).toBe('closed');
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+    });
+});
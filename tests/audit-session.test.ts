@@ -0,0 +1,217 @@
+import {Audit, AuditEntityChanges, AuditField, AuditHandle, AuditSession} from '../src';
+
+describe('Audit Session', () => {
+    class Company {
+        @AuditField()
+        name = 'Acme';
+    }
+
+    class User {
+        @AuditField()
+        email = 'alice@example.com';
+
+        @AuditField()
+        role = 'member';
+    }
+
+    describe('track', () => {
+        it('should return audited wrappers', () => {
+            const session = new AuditSession();
+            const company = session.track(new Company(), {entityType: 'Company', id: 1});
+
+            company.name = 'Acme Corp';
+
+            expect(company.changes()).toHaveLength(1);
+        });
+
+        it('should return the same wrapper when an object is tracked twice', () => {
+            const session = new AuditSession();
+            const company = new Company();
+
+            const first = session.track(company, {entityType: 'Company', id: 1});
+            const second = session.track(first, {entityType: 'Company', id: 1});
+
+            expect(second).toBe(first);
+        });
+
+        it('should track objects that are already audited', () => {
+            const session = new AuditSession();
+            const audited = Audit(new Company());
+
+            expect(session.track(audited, {entityType: 'Company'})).toBe(audited);
+        });
+
+        it('should pass audit options to the wrapper', () => {
+            const session = new AuditSession();
+            const user = session.track(new User(), {entityType: 'User', id: 'u1'}, {ignore: ['role']});
+
+            user.role = 'admin';
+
+            expect(session.hasChanges()).toBe(false);
+        });
+
+        it('should require an entity type', () => {
+            const session = new AuditSession();
+
+            expect(() => session.track(new Company(), {entityType: ''}))
+                .toThrow('Audit session entities must have an entity type');
+        });
+    });
+
+    describe('changes', () => {
+        it('should group changes by entity in tracking order', () => {
+            const session = new AuditSession();
+            const company = session.track(new Company(), {entityType: 'Company', id: 1});
+            const user = session.track(new User(), {entityType: 'User', id: 'u1'});
+            const untouched = session.track(new User(), {entityType: 'User', id: 'u2'});
+
+            user.email = 'bob@example.com';
+            company.name = 'Acme Corp';
+
+            expect(untouched.hasChanges()).toBe(false);
+            expect(session.changes()).toEqual([
+                {entityType: 'Company', id: 1, changes: [expect.objectContaining({field: 'name'})]},
+                {entityType: 'User', id: 'u1', changes: [expect.objectContaining({field: 'email'})]}
+            ]);
+            expect(session.hasChanges()).toBe(true);
+        });
+    });
+
+    describe('commit', () => {
+        it('should flush the changes to every sink and reset the tracked objects', async () => {
+            const flushed: AuditEntityChanges[][] = [];
+            const order: string[] = [];
+            const session = new AuditSession({
+                sinks: [
+                    async changes => {
+                        await Promise.resolve();
+                        order.push('first');
+                        flushed.push(changes);
+                    },
+                    () => {
+                        order.push('second');
+                    }
+                ]
+            });
+            const company = session.track(new Company(), {entityType: 'Company', id: 1});
+            company.name = 'Acme Corp';
+
+            const committed = await session.commit();
+
+            expect(order).toEqual(['first', 'second']);
+            expect(flushed).toEqual([committed]);
+            expect(committed).toHaveLength(1);
+            expect(company.hasChanges()).toBe(false);
+            expect(session.changes()).toEqual([]);
+        });
+
+        it('should not call sinks when there are no changes', async () => {
+            const sink = jest.fn();
+            const session = new AuditSession({sinks: [sink]});
+            session.track(new Company(), {entityType: 'Company', id: 1});
+
+            await session.commit();
+
+            expect(sink).not.toHaveBeenCalled();
+        });
+
+        it('should keep the changes when a sink fails', async () => {
+            const session = new AuditSession({
+                sinks: [() => Promise.reject(new Error('database unavailable'))]
+            });
+            const company = session.track(new Company(), {entityType: 'Company', id: 1});
+            company.name = 'Acme Corp';
+
+            await expect(session.commit()).rejects.toThrow('database unavailable');
+
+            expect(session.changes()).toHaveLength(1);
+        });
+
+        it('should keep changes made while the sinks are awaited', async () => {
+            let company!: Company & AuditHandle;
+            const session = new AuditSession({
+                sinks: [async () => {
+                    company.name = 'Acme Inc';
+                }]
+            });
+            company = session.track(new Company(), {entityType: 'Company', id: 1});
+            company.name = 'Acme Corp';
+
+            const committed = await session.commit();
+
+            expect(committed[0]?.changes).toEqual([
+                expect.objectContaining({oldValue: 'Acme', newValue: 'Acme Corp'})
+            ]);
+            expect(company.changes()).toEqual([
+                expect.objectContaining({oldValue: 'Acme Corp', newValue: 'Acme Inc'})
+            ]);
+        });
+
+        it('should put the changes back in front of later ones when a sink fails', async () => {
+            let user!: User & AuditHandle;
+            const session = new AuditSession({
+                sinks: [async () => {
+                    user.email = 'bob@example.com';
+                    user.role = 'admin';
+                    throw new Error('database unavailable');
+                }]
+            });
+            user = session.track(new User(), {entityType: 'User', id: 1}, {history: true});
+            user.email = 'carol@example.com';
+
+            await expect(session.commit()).rejects.toThrow('database unavailable');
+
+            expect(user.changes()).toEqual([
+                expect.objectContaining({field: 'email', oldValue: 'alice@example.com', newValue: 'bob@example.com'}),
+                expect.objectContaining({field: 'role', oldValue: 'member', newValue: 'admin'})
+            ]);
+            expect(user.history()).toHaveLength(3);
+
+            session.rollback();
+            expect(user).toMatchObject({email: 'alice@example.com', role: 'member'});
+        });
+
+        it('should keep tracking objects after a commit', async () => {
+            const session = new AuditSession();
+            const company = session.track(new Company(), {entityType: 'Company', id: 1});
+            company.name = 'Acme Corp';
+            await session.commit();
+
+            company.name = 'Acme Inc';
+
+            expect(session.changes()[0]?.changes[0]).toEqual(
+                expect.objectContaining({oldValue: 'Acme Corp', newValue: 'Acme Inc'})
+            );
+        });
+    });
+
+    describe('rollback', () => {
+        it('should revert every tracked object', () => {
+            const session = new AuditSession();
+            const company = session.track(new Company(), {entityType: 'Company', id: 1});
+            const user = session.track(new User(), {entityType: 'User', id: 'u1'});
+            company.name = 'Acme Corp';
+            user.email = 'bob@example.com';
+            user.role = 'admin';
+
+            session.rollback();
+
+            expect(company.name).toBe('Acme');
+            expect(user.email).toBe('alice@example.com');
+            expect(user.role).toBe('member');
+            expect(session.hasChanges()).toBe(false);
+        });
+
+        it('should revert to the state of the last commit', async () => {
+            const session = new AuditSession();
+            const company = session.track(new Company(), {entityType: 'Company', id: 1});
+            company.name = 'Acme Corp';
+            await session.commit();
+            company.name = 'Acme Inc';
+
+            session.rollback();
+
+            expect(company.name).toBe('Acme Corp');
+        });
+    });
+});
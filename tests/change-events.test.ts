@@ -0,0 +1,120 @@
+import {Audit, AuditField, AuditSensitive, ChangeRecord, onAnyAuditChange} from '../src';
+
+describe('Change Events', () => {
+    class Order {
+        @AuditField()
+        status = 'open';
+
+        @AuditField()
+        items: string[] = [];
+
+        @AuditSensitive()
+        paymentToken = '';
+    }
+
+    describe('AuditHandle.onChange', () => {
+        it('should call the listener synchronously with each new record', () => {
+            const wrapped = Audit(new Order());
+            const seen: ChangeRecord[] = [];
+            wrapped.onChange(change => seen.push(change));
+
+            wrapped.status = 'packed';
+            expect(seen).toHaveLength(1);
+
+            wrapped.status = 'shipped';
+            expect(seen.map(change => [change.oldValue, change.newValue])).toEqual([
+                ['open', 'packed'],
+                ['packed', 'shipped']
+            ]);
+        });
+
+        it('should report nested changes', () => {
+            const wrapped = Audit(new Order());
+            const listener = jest.fn();
+            wrapped.onChange(listener);
+
+            wrapped.items.push('lamp');
+
+            expect(listener).toHaveBeenCalledWith(expect.objectContaining({field: 'items', newValue: ['lamp']}));
+        });
+
+        it('should pass redacted records', () => {
+            const wrapped = Audit(new Order());
+            const listener = jest.fn();
+            wrapped.onChange(listener);
+
+            wrapped.paymentToken = 'tok_live_123';
+
+            expect(listener).toHaveBeenCalledWith(expect.objectContaining({newValue: '[REDACTED]'}));
+        });
+
+        it('should stop calling the listener after unsubscribing', () => {
+            const wrapped = Audit(new Order());
+            const listener = jest.fn();
+            const unsubscribe = wrapped.onChange(listener);
+
+            wrapped.status = 'packed';
+            unsubscribe();
+            wrapped.status = 'shipped';
+
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('should isolate listener errors from business logic and other listeners', () => {
+            const wrapped = Audit(new Order());
+            const listener = jest.fn();
+            wrapped.onChange(() => {
+                throw new Error('listener failed');
+            });
+            wrapped.onChange(listener);
+
+            expect(() => {
+                wrapped.status = 'packed';
+            }).not.toThrow();
+            expect(wrapped.status).toBe('packed');
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('onAnyAuditChange', () => {
+        it('should call the listener for every audited object', () => {
+            const first = Audit(new Order());
+            const second = Audit(new Order());
+            const calls: [string, object][] = [];
+            const unsubscribe = onAnyAuditChange((change, audited) => calls.push([change.field, audited]));
+
+            first.status = 'packed';
+            second.status = 'cancelled';
+            unsubscribe();
+            first.status = 'shipped';
+
+            expect(calls).toEqual([['status', first], ['status', second]]);
+        });
+
+        it('should run after the listeners of the object', () => {
+            const wrapped = Audit(new Order(), {onChange: () => order.push('option')});
+            const order: string[] = [];
+            wrapped.onChange(() => order.push('handle'));
+            const unsubscribe = onAnyAuditChange(() => order.push('global'));
+
+            wrapped.status = 'packed';
+            unsubscribe();
+
+            expect(order).toEqual(['option', 'handle', 'global']);
+        });
+
+        it('should isolate listener errors', () => {
+            const wrapped = Audit(new Order());
+            const unsubscribe = onAnyAuditChange(() => {
+                throw new Error('listener failed');
+            });
+
+            expect(() => {
+                wrapped.status = 'packed';
+            }).not.toThrow();
+            unsubscribe();
+
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import {Audit, AuditField, changeStream, ChangeRecord} from '../src';
+
+describe('Change Streams', () => {
+    class Order {
+        @AuditField()
+        status = 'open';
+    }
+
+    it('should yield changes captured before they are consumed', async () => {
+        const wrapped = Audit(new Order());
+        const stream = changeStream(wrapped);
+
+        wrapped.status = 'packed';
+        wrapped.status = 'shipped';
+        stream.close();
+
+        const seen: unknown[] = [];
+        for await (const change of stream) {
+            seen.push(change.newValue);
+        }
+        expect(seen).toEqual(['packed', 'shipped']);
+    });
+
+    it('should resolve waiting consumers as changes are captured', async () => {
+        const wrapped = Audit(new Order());
+        const stream = changeStream(wrapped);
+
+        const next = stream.next();
+        wrapped.status = 'packed';
+
+        await expect(next).resolves.toEqual({value: expect.objectContaining({newValue: 'packed'}), done: false});
+        stream.close();
+    });
+
+    it('should end waiting consumers on close', async () => {
+        const wrapped = Audit(new Order());
+        const stream = changeStream(wrapped);
+
+        const next = stream.next();
+        stream.close();
+
+        await expect(next).resolves.toEqual({value: undefined, done: true});
+    });
+
+    it('should stop capturing changes after close', async () => {
+        const wrapped = Audit(new Order());
+        const stream = changeStream(wrapped);
+
+        stream.close();
+        wrapped.status = 'packed';
+
+        await expect(stream.next()).resolves.toEqual({value: undefined, done: true});
+    });
+
+    it('should drop the oldest changes when the buffer is full', async () => {
+        const wrapped = Audit(new Order());
+        const stream = changeStream(wrapped, {bufferSize: 2});
+
+        wrapped.status = 'packed';
+        wrapped.status = 'shipped';
+        wrapped.status = 'delivered';
+        stream.close();
+
+        const seen: ChangeRecord[] = [];
+        for await (const change of stream) {
+            seen.push(change);
+        }
+        expect(seen.map(change => change.newValue)).toEqual(['shipped', 'delivered']);
+    });
+
+    it('should close when the consumer stops iterating', async () => {
+        const wrapped = Audit(new Order());
+        const stream = changeStream(wrapped);
+
+        wrapped.status = 'packed';
+        wrapped.status = 'shipped';
+        for await (const change of stream) {
+            expect(change.newValue).toBe('packed');
+            break;
+        }
+
+        await expect(stream.next()).resolves.toEqual({value: undefined, done: true});
+    });
+
+    it('should reject objects that are not audited', () => {
+        expect(() => changeStream(new Order() as unknown as Parameters<typeof changeStream>[0]))
+            .toThrow('Change stream source must be an audited object');
+    });
+
+    it('should reject invalid buffer sizes', () => {
+        expect(() => changeStream(Audit(new Order()), {bufferSize: 0}))
+            .toThrow('Change stream buffer size must be a positive integer');
+    });
+});
@@ -13,7 +13,7 @@ describe('ChangeTracker', () => {
 
             const changes = tracker.getChanges();
             expect(changes).toHaveLength(1);
-            expect(changes[0]).toEqual({
+            expect(changes[0]).toMatchObject({
                 field: 'email',
                 oldValue: 'old@example.com',
                 newValue: 'new@example.com'
@@ -26,7 +26,7 @@ describe('ChangeTracker', () => {
 
             const changes = tracker.getChanges();
             expect(changes).toHaveLength(1);
-            expect(changes[0]).toEqual({
+            expect(changes[0]).toMatchObject({
                 field: 'email',
                 oldValue: 'original@example.com', // First old value preserved
                 newValue: 'final@example.com'     // Last new value preserved
@@ -43,13 +43,13 @@ describe('ChangeTracker', () => {
             const emailChange = changes.find(c => c.field === 'email');
             const nameChange = changes.find(c => c.field === 'name');
 
-            expect(emailChange).toEqual({
+            expect(emailChange).toMatchObject({
                 field: 'email',
                 oldValue: 'old@example.com',
                 newValue: 'new@example.com'
             });
 
-            expect(nameChange).toEqual({
+            expect(nameChange).toMatchObject({
                 field: 'name',
                 oldValue: 'Old Name',
                 newValue: 'New Name'
@@ -97,6 +97,30 @@ describe('ChangeTracker', () => {
         });
     });
 
+    describe('detach', () => {
+        it('should reset the tracker', () => {
+            tracker.trackChange('email', 'old@example.com', 'new@example.com');
+
+            tracker.detach();
+
+            expect(tracker.getChanges()).toHaveLength(0);
+        });
+
+        it('should put the detached changes back in front of later ones', () => {
+            tracker.trackChange('email', 'a@example.com', 'b@example.com');
+            tracker.trackChange('name', 'Old Name', 'New Name');
+
+            const reattach = tracker.detach();
+            tracker.trackChange('email', 'b@example.com', 'c@example.com');
+            reattach();
+
+            expect(tracker.getChanges()).toEqual([
+                expect.objectContaining({field: 'email', oldValue: 'a@example.com', newValue: 'c@example.com'}),
+                expect.objectContaining({field: 'name', oldValue: 'Old Name', newValue: 'New Name'})
+            ]);
+        });
+    });
+
     describe('hasChanges', () => {
         it('should return false when no changes tracked', () => {
             expect(tracker.hasChanges()).toBe(false);
@@ -0,0 +1,149 @@
+import {Audit, AUDIT_REMOVED, AuditField} from '../src';
+
+describe('Map and Set Mutation Tracking', () => {
+    class Role {
+        @AuditField()
+        permissions: Map<string, string> = new Map([['admin', 'read'], ['billing', 'none']]);
+
+        @AuditField()
+        flags: Set<string> = new Set(['beta']);
+
+        cache: Map<string, number> = new Map();
+    }
+
+    describe('Map fields', () => {
+        it('should record set on an existing key with old and new entry values', () => {
+            const wrapped = Audit(new Role());
+
+            wrapped.permissions.set('admin', 'write');
+
+            const changes = wrapped.changes();
+            expect(changes).toHaveLength(1);
+            expect(changes[0]).toMatchObject({field: 'permissions[admin]', oldValue: 'read', newValue: 'write'});
+        });
+
+        it('should record set on a new key', () => {
+            const wrapped = Audit(new Role());
+
+            wrapped.permissions.set('audit', 'read');
+
+            expect(wrapped.changes()[0]).toMatchObject({field: 'permissions[audit]', oldValue: undefined, newValue: 'read'});
+        });
+
+        it('should not record set with the same value', () => {
+            const wrapped = Audit(new Role());
+
+            wrapped.permissions.set('admin', 'read');
+
+            expect(wrapped.changes()).toHaveLength(0);
+        });
+
+        it('should record delete and clear per entry', () => {
+            const wrapped = Audit(new Role());
+
+            wrapped.permissions.delete('admin');
+            wrapped.permissions.delete('missing');
+            wrapped.permissions.clear();
+
+            const changes = wrapped.changes();
+            expect(changes.map(c => c.field)).toEqual(['permissions[admin]', 'permissions[billing]']);
+            expect(changes[1]).toMatchObject({oldValue: 'none', newValue: AUDIT_REMOVED});
+        });
+
+        it('should collapse repeated writes to the same key', () => {
+            const wrapped = Audit(new Role());
+
+            wrapped.permissions.set('admin', 'write');
+            wrapped.permissions.set('admin', 'owner');
+
+            expect(wrapped.changes()).toHaveLength(1);
+            expect(wrapped.changes()[0]).toMatchObject({oldValue: 'read', newValue: 'owner'});
+        });
+
+        it('should keep entries with distinct keys apart when their names format alike', () => {
+            class Grants {
+                @AuditField()
+                perms: Map<unknown, string> = new Map();
+            }
+            const wrapped = Audit(new Grants());
+            const first = {id: 1};
+            const second = {id: 2};
+
+            wrapped.perms.set(first, 'a');
+            wrapped.perms.set(second, 'b');
+            wrapped.perms.set(1, 'x');
+            wrapped.perms.set('1', 'y');
+
+            expect(wrapped.changes().map(c => c.path[1])).toEqual([first, second, 1, '1']);
+
+            wrapped.revert();
+
+            expect(wrapped.perms.size).toBe(0);
+        });
+
+        it('should keep Map behavior intact', () => {
+            const role = new Role();
+            const wrapped = Audit(role);
+
+            expect(wrapped.permissions.set('x', 'y')).toBe(wrapped.permissions);
+            expect(wrapped.permissions.size).toBe(3);
+            expect(wrapped.permissions.get('x')).toBe('y');
+            expect(Array.from(wrapped.permissions.keys())).toEqual(['admin', 'billing', 'x']);
+            expect(wrapped.permissions instanceof Map).toBe(true);
+            expect(role.permissions.get('x')).toBe('y');
+        });
+
+        it('should not track Maps of untracked fields', () => {
+            const wrapped = Audit(new Role());
+
+            wrapped.cache.set('hits', 1);
+
+            expect(wrapped.changes()).toHaveLength(0);
+        });
+
+        it('should track entry values individually in deep mode', () => {
+            class FeatureFlags {
+                @AuditField({deep: true})
+                config: Map<string, { enabled: boolean }> = new Map([['search', {enabled: false}]]);
+            }
+
+            const wrapped = Audit(new FeatureFlags());
+            wrapped.config.get('search')!.enabled = true;
+
+            expect(wrapped.changes()[0]).toMatchObject({field: 'config[search].enabled', oldValue: false, newValue: true});
+        });
+    });
+
+    describe('Set fields', () => {
+        it('should record add of a new member', () => {
+            const wrapped = Audit(new Role());
+
+            wrapped.flags.add('dark-mode');
+            wrapped.flags.add('beta');
+
+            const changes = wrapped.changes();
+            expect(changes).toHaveLength(1);
+            expect(changes[0]).toMatchObject({field: 'flags[dark-mode]', oldValue: undefined, newValue: 'dark-mode'});
+        });
+
+        it('should record delete and clear per member', () => {
+            const wrapped = Audit(new Role());
+
+            wrapped.flags.add('x');
+            wrapped.flags.clear();
+
+            const changes = wrapped.changes();
+            expect(changes.map(c => c.field)).toEqual(['flags[x]', 'flags[beta]']);
+            expect(changes[1]).toMatchObject({oldValue: 'beta', newValue: AUDIT_REMOVED});
+        });
+
+        it('should keep Set behavior intact', () => {
+            const wrapped = Audit(new Role());
+
+            expect(wrapped.flags.add('y')).toBe(wrapped.flags);
+            expect(wrapped.flags.has('y')).toBe(true);
+            expect(wrapped.flags.size).toBe(2);
+            expect(Array.from(wrapped.flags)).toEqual(['beta', 'y']);
+        });
+    });
+});
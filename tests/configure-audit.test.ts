@@ -0,0 +1,125 @@
+import {Audit, AuditField, configureAudit, getAuditFieldOptions} from '../src';
+
+describe('Programmatic Audit Configuration', () => {
+    describe('configureAudit', () => {
+        it('should track the listed fields', () => {
+            class UserDto {
+                email = 'alice@example.com';
+                name = 'Alice';
+            }
+
+            configureAudit(UserDto, {fields: ['email']});
+            const wrapped = Audit(new UserDto());
+
+            wrapped.email = 'bob@example.com';
+            wrapped.name = 'Bob';
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['email']);
+        });
+
+        it('should accept per-field options', () => {
+            class AddressDto {
+                street = {line1: '1 Main St'};
+            }
+
+            configureAudit(AddressDto, {fields: {street: {deep: true, label: 'Street'}}});
+            const wrapped = Audit(new AddressDto());
+
+            wrapped.street.line1 = '2 Main St';
+
+            expect(wrapped.changes()[0]?.field).toBe('street.line1');
+            expect(getAuditFieldOptions(wrapped, 'street').label).toBe('Street');
+        });
+
+        it('should support class-level tracking with ignored fields', () => {
+            class ThirdPartyUser {
+                email = 'alice@example.com';
+                cache: Record<string, unknown> = {};
+            }
+
+            configureAudit(ThirdPartyUser, {classLevel: true, ignore: ['cache']});
+            const wrapped = Audit(new ThirdPartyUser());
+
+            wrapped.email = 'bob@example.com';
+            wrapped.cache = {hit: true};
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['email']);
+        });
+
+        it('should accept class-level options', () => {
+            class Settings {
+                theme = 'dark';
+                locale = 'en';
+            }
+
+            configureAudit(Settings, {classLevel: {include: ['theme']}});
+            const wrapped = Audit(new Settings());
+
+            wrapped.theme = 'light';
+            wrapped.locale = 'fr';
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['theme']);
+        });
+
+        it('should combine with decorators', () => {
+            class Mixed {
+                @AuditField()
+                decorated = 'a';
+
+                configured = 'b';
+            }
+
+            configureAudit(Mixed, {fields: ['configured']});
+            const wrapped = Audit(new Mixed());
+
+            wrapped.decorated = 'c';
+            wrapped.configured = 'd';
+
+            expect(wrapped.changes()).toHaveLength(2);
+        });
+
+        it('should reject targets that are not classes', () => {
+            expect(() => configureAudit(null as unknown as new () => object, {fields: []}))
+                .toThrow('Audit configuration target must be a class');
+        });
+    });
+
+    describe('Audit fields and ignore options', () => {
+        it('should track fields of plain object literals', () => {
+            const wrapped = Audit({status: 'open', note: ''}, {fields: ['status']});
+
+            wrapped.status = 'closed';
+            wrapped.note = 'done';
+
+            expect(wrapped.changes()).toEqual([
+                expect.objectContaining({field: 'status', oldValue: 'open', newValue: 'closed'})
+            ]);
+        });
+
+        it('should track collections of plain object literals', () => {
+            const wrapped = Audit({tags: ['a']}, {fields: ['tags']});
+
+            wrapped.tags.push('b');
+
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+
+        it('should ignore fields for a single wrapper', () => {
+            class Account {
+                @AuditField()
+                balance = 0;
+
+                @AuditField()
+                lastSeen = 0;
+            }
+
+            const wrapped = Audit(new Account(), {ignore: ['lastSeen']});
+
+            wrapped.balance = 10;
+            wrapped.lastSeen = Date.now();
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['balance']);
+            expect(Object.keys(wrapped.snapshot().values)).toEqual(['balance']);
+        });
+    });
+});
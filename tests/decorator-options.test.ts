@@ -0,0 +1,117 @@
+import {Audit, AuditField, AuditIgnore, Auditable, getAuditableOptions, getAuditFieldOptions} from '../src';
+import {AuditFieldOptions} from '../src/types';
+
+describe('Decorator Options', () => {
+    describe('@AuditField options', () => {
+        class Customer {
+            @AuditField({label: 'E-mail address', group: 'contact', sensitivity: 'confidential'})
+            email = 'alice@example.com';
+
+            @AuditField()
+            name = 'Alice';
+        }
+
+        it('should store descriptive options in the metadata', () => {
+            expect(getAuditFieldOptions(new Customer(), 'email')).toEqual({
+                label: 'E-mail address',
+                group: 'contact',
+                sensitivity: 'confidential'
+            });
+            expect(getAuditFieldOptions(new Customer(), 'name')).toEqual({});
+        });
+
+        it('should read options through audited wrappers', () => {
+            const wrapped = Audit(new Customer());
+
+            expect(getAuditFieldOptions(wrapped, 'email').label).toBe('E-mail address');
+            expect(Object.isFrozen(getAuditFieldOptions(wrapped, 'email'))).toBe(true);
+        });
+
+        it('should drop unknown options and options of the wrong type', () => {
+            class Invalid {
+                @AuditField({label: 42, group: 'ok', color: 'red', deep: 'yes'} as unknown as AuditFieldOptions)
+                field = 'value';
+            }
+
+            const wrapped = Audit(new Invalid());
+            wrapped.field = 'changed';
+
+            expect(getAuditFieldOptions(wrapped, 'field')).toEqual({group: 'ok'});
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+
+        it('should merge options from several decorators', () => {
+            class Merged {
+                @AuditField({label: 'Code'})
+                @AuditField({deep: true})
+                code = {value: 'A'};
+            }
+
+            expect(getAuditFieldOptions(new Merged(), 'code')).toEqual({label: 'Code', deep: true});
+        });
+    });
+
+    describe('@Auditable options', () => {
+        @Auditable({label: 'Customer account', include: ['email', 'phone']})
+        class Account {
+            email = 'alice@example.com';
+            phone?: string;
+            cache = {};
+
+            @AuditField()
+            status = 'active';
+        }
+
+        @Auditable({exclude: ['cache']})
+        class Profile {
+            name = 'Alice';
+            cache = {};
+
+            @AuditField()
+            @AuditIgnore()
+            ignored = 'x';
+        }
+
+        it('should expose the class options', () => {
+            expect(getAuditableOptions(Audit(new Account()))).toEqual({
+                label: 'Customer account',
+                include: ['email', 'phone']
+            });
+        });
+
+        it('should only track included fields and decorated fields', () => {
+            const wrapped = Audit(new Account());
+
+            wrapped.email = 'bob@example.com';
+            wrapped.phone = '555-0100';
+            wrapped.cache = {hit: true};
+            wrapped.status = 'closed';
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['email', 'phone', 'status']);
+        });
+
+        it('should not track excluded fields', () => {
+            const wrapped = Audit(new Profile());
+
+            wrapped.name = 'Bob';
+            wrapped.cache = {hit: true};
+            wrapped.ignored = 'y';
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['name']);
+        });
+
+        it('should ignore include lists of the wrong type', () => {
+            @Auditable({include: 'email'} as unknown as { include: string[] })
+            class Loose {
+                email = 'a';
+                name = 'b';
+            }
+
+            const wrapped = Audit(new Loose());
+            wrapped.email = 'c';
+            wrapped.name = 'd';
+
+            expect(wrapped.changes()).toHaveLength(2);
+        });
+    });
+});
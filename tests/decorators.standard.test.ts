@@ -0,0 +1,110 @@
+/**
+ * Tests for the decorators compiled as TC39 standard decorators
+ * This file is compiled without experimentalDecorators (see jest.config.js)
+ */
+
+import {Audit, AuditField, AuditIgnore, Auditable, AuditSensitive, AUDIT_REDACTED, getAuditFieldOptions} from '../src';
+import {metadataManager} from '../src/metadata';
+
+describe('Standard Decorators', () => {
+    describe('without Symbol.metadata', () => {
+        class Customer {
+            @AuditField({label: 'E-mail'})
+            email = 'alice@example.com';
+
+            @AuditSensitive()
+            password = 'hunter2';
+
+            name = 'Alice';
+        }
+
+        @Auditable({exclude: ['cache']})
+        class Order {
+            status = 'open';
+            cache = {};
+
+            @AuditIgnore()
+            internalNote = '';
+        }
+
+        it('should track fields decorated with @AuditField', () => {
+            const wrapped = Audit(new Customer());
+
+            wrapped.email = 'bob@example.com';
+            wrapped.name = 'Bob';
+
+            expect(wrapped.changes()).toEqual([
+                expect.objectContaining({field: 'email', oldValue: 'alice@example.com', newValue: 'bob@example.com'})
+            ]);
+            expect(getAuditFieldOptions(wrapped, 'email')).toEqual({label: 'E-mail'});
+        });
+
+        it('should apply field options such as redaction', () => {
+            const wrapped = Audit(new Customer());
+
+            wrapped.password = 'swordfish';
+
+            expect(wrapped.changes()[0]).toMatchObject({oldValue: AUDIT_REDACTED, newValue: AUDIT_REDACTED});
+        });
+
+        it('should support class-level tracking with ignored fields', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.status = 'closed';
+            wrapped.cache = {hit: true};
+            wrapped.internalNote = 'note';
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['status']);
+            expect(metadataManager.isFieldTracked(new Order(), 'internalNote')).toBe(false);
+        });
+    });
+
+    describe('with Symbol.metadata', () => {
+        const hadMetadataSymbol = 'metadata' in Symbol;
+
+        beforeAll(() => {
+            if (!hadMetadataSymbol) {
+                Object.defineProperty(Symbol, 'metadata', {value: Symbol('Symbol.metadata'), configurable: true});
+            }
+        });
+
+        afterAll(() => {
+            if (!hadMetadataSymbol) {
+                Reflect.deleteProperty(Symbol, 'metadata');
+            }
+        });
+
+        it('should store metadata on context.metadata', () => {
+            @Auditable()
+            class Invoice {
+                total = 10;
+
+                @AuditIgnore()
+                draft = true;
+            }
+
+            const metadataKey = Reflect.get(Symbol, 'metadata') as symbol;
+            expect(Reflect.get(Invoice, metadataKey)).toBeDefined();
+
+            const wrapped = Audit(new Invoice());
+            wrapped.total = 20;
+            wrapped.draft = false;
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['total']);
+        });
+
+        it('should know tracked fields before any instance is created', () => {
+            class Shipment {
+                @AuditField({deep: true})
+                address = {city: 'Paris'};
+            }
+
+            expect(metadataManager.getFieldOptions(Object.create(Shipment.prototype), 'address')).toEqual({deep: true});
+
+            const wrapped = Audit(new Shipment());
+            wrapped.address.city = 'Lyon';
+
+            expect(wrapped.changes()[0]?.field).toBe('address.city');
+        });
+    });
+});
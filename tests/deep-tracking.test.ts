@@ -0,0 +1,187 @@
+import {Audit, AuditField, Auditable} from '../src';
+
+describe('Deep Tracking', () => {
+    interface Address {
+        city: string;
+        geo: { lat: number; lng: number };
+    }
+
+    @Auditable()
+    class Customer {
+        name: string = 'Alice';
+        address: Address = {city: 'London', geo: {lat: 51.5, lng: -0.1}};
+    }
+
+    class Order {
+        @AuditField({deep: true})
+        shipping: Address = {city: 'Berlin', geo: {lat: 52.5, lng: 13.4}};
+
+        @AuditField()
+        billing: Address = {city: 'Rome', geo: {lat: 41.9, lng: 12.5}};
+    }
+
+    describe('Audit options', () => {
+        it('should not track nested mutations by default', () => {
+            const wrapped = Audit(new Customer());
+
+            wrapped.address.city = 'Paris';
+
+            expect(wrapped.changes()).toHaveLength(0);
+            expect(wrapped.address.city).toBe('Paris');
+        });
+
+        it('should track nested mutations with full paths when deep is enabled', () => {
+            const wrapped = Audit(new Customer(), {deep: true});
+
+            wrapped.address.city = 'Paris';
+            wrapped.address.geo.lat = 48.8;
+
+            const changes = wrapped.changes();
+            expect(changes).toHaveLength(2);
+            expect(changes[0]).toMatchObject({field: 'address.city', oldValue: 'London', newValue: 'Paris'});
+            expect(changes[1]).toMatchObject({field: 'address.geo.lat', oldValue: 51.5, newValue: 48.8});
+        });
+
+        it('should collapse repeated nested assignments and skip same values', () => {
+            const wrapped = Audit(new Customer(), {deep: true});
+
+            wrapped.address.city = 'London';
+            wrapped.address.city = 'Paris';
+            wrapped.address.city = 'Madrid';
+
+            const changes = wrapped.changes();
+            expect(changes).toHaveLength(1);
+            expect(changes[0]).toMatchObject({field: 'address.city', oldValue: 'London', newValue: 'Madrid'});
+        });
+
+        it('should write nested changes through to the original object', () => {
+            const customer = new Customer();
+            const wrapped = Audit(customer, {deep: true});
+
+            wrapped.address.geo.lng = 2.3;
+
+            expect(customer.address.geo.lng).toBe(2.3);
+        });
+
+        it('should return the same nested proxy on repeated reads', () => {
+            const wrapped = Audit(new Customer(), {deep: true});
+
+            expect(wrapped.address).toBe(wrapped.address);
+            expect(wrapped.address.geo).toBe(wrapped.address.geo);
+        });
+
+        it('should not store nested proxies in the original object on assignment', () => {
+            const customer = new Customer();
+            const originalGeo = customer.address.geo;
+            const wrapped = Audit(customer, {deep: true});
+            const geoProxy = wrapped.address.geo;
+
+            wrapped.address.geo = {lat: 0, lng: 0};
+            wrapped.address.geo = geoProxy;
+
+            expect(customer.address.geo).toBe(originalGeo);
+            expect(wrapped.changes()[0]).toMatchObject({field: 'address.geo', oldValue: originalGeo, newValue: originalGeo});
+        });
+    });
+
+    describe('@AuditField deep option', () => {
+        it('should track nested mutations only for fields declared deep', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.shipping.city = 'Hamburg';
+            wrapped.billing.city = 'Milan';
+
+            const changes = wrapped.changes();
+            expect(changes).toHaveLength(1);
+            expect(changes[0]).toMatchObject({field: 'shipping.city', oldValue: 'Berlin', newValue: 'Hamburg'});
+        });
+
+        it('should keep tracking reassignment of the deep field itself', () => {
+            const wrapped = Audit(new Order());
+            const replacement = {city: 'Vienna', geo: {lat: 48.2, lng: 16.4}};
+
+            wrapped.shipping = replacement;
+            wrapped.shipping.city = 'Graz';
+
+            const changes = wrapped.changes();
+            expect(changes.map(c => c.field)).toEqual(['shipping', 'shipping.city']);
+            expect(changes[1]).toMatchObject({oldValue: 'Vienna', newValue: 'Graz'});
+        });
+    });
+
+    describe('Iteration', () => {
+        class Invoice {
+            @AuditField({deep: true})
+            lines = [{qty: 1}, {qty: 2}];
+
+            @AuditField({deep: true})
+            byCode = new Map([['a', {qty: 1}]]);
+        }
+
+        it('should track elements mutated in a for-of loop', () => {
+            const wrapped = Audit(new Invoice());
+
+            for (const line of wrapped.lines) {
+                line.qty = 5;
+            }
+
+            expect(wrapped.changes()).toEqual([
+                expect.objectContaining({field: 'lines[0].qty', oldValue: 1, newValue: 5}),
+                expect.objectContaining({field: 'lines[1].qty', oldValue: 2, newValue: 5})
+            ]);
+        });
+
+        it('should track elements mutated in array callbacks', () => {
+            const wrapped = Audit(new Invoice());
+
+            wrapped.lines.forEach(line => {
+                line.qty = 7;
+            });
+            wrapped.lines.find(line => line.qty === 7)!.qty = 8;
+
+            expect(wrapped.changes().map(change => [change.field, change.newValue])).toEqual([
+                ['lines[0].qty', 8],
+                ['lines[1].qty', 7]
+            ]);
+        });
+
+        it('should keep raw elements in arrays returned by callbacks', () => {
+            const invoice = new Invoice();
+            const wrapped = Audit(invoice);
+
+            const kept = wrapped.lines.filter(line => line.qty > 1);
+            const same = wrapped.lines.map(line => line);
+
+            expect(kept).toEqual([invoice.lines[1]]);
+            expect(kept[0]).toBe(invoice.lines[1]);
+            expect(same[0]).toBe(invoice.lines[0]);
+        });
+
+        it('should track Map values mutated while iterating', () => {
+            const wrapped = Audit(new Invoice());
+
+            for (const [, line] of wrapped.byCode) {
+                line.qty = 3;
+            }
+            wrapped.byCode.forEach(line => {
+                line.qty = 4;
+            });
+
+            expect(wrapped.changes()).toEqual([
+                expect.objectContaining({field: 'byCode[a].qty', oldValue: 1, newValue: 4})
+            ]);
+        });
+    });
+
+    describe('Untracked fields', () => {
+        it('should not wrap nested objects of fields that are not tracked', () => {
+            const plain = {settings: {theme: 'dark'}};
+            const wrapped = Audit(plain, {deep: true});
+
+            wrapped.settings.theme = 'light';
+
+            expect(wrapped.changes()).toHaveLength(0);
+            expect(wrapped.settings).toBe(plain.settings);
+        });
+    });
+});
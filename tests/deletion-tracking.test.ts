@@ -0,0 +1,88 @@
+import {Audit, AUDIT_REMOVED, AuditField, Auditable} from '../src';
+
+describe('Property Deletion Tracking', () => {
+    class Contact {
+        @AuditField()
+        primaryPhone: string = '555-0100';
+
+        @AuditField()
+        secondaryPhone?: string | undefined = '555-0199';
+
+        note?: string = 'untracked';
+    }
+
+    it('should record deletion of a tracked field with the removed marker', () => {
+        const contact = new Contact();
+        const wrapped = Audit(contact);
+
+        delete wrapped.secondaryPhone;
+
+        expect('secondaryPhone' in contact).toBe(false);
+        const changes = wrapped.changes();
+        expect(changes).toHaveLength(1);
+        expect(changes[0]).toMatchObject({field: 'secondaryPhone', oldValue: '555-0199', newValue: AUDIT_REMOVED});
+    });
+
+    it('should distinguish removal from assigning undefined', () => {
+        const wrapped = Audit(new Contact());
+
+        wrapped.secondaryPhone = undefined;
+
+        expect(wrapped.changes()[0]?.newValue).toBeUndefined();
+    });
+
+    it('should collapse deletion with earlier assignments', () => {
+        const wrapped = Audit(new Contact());
+
+        wrapped.secondaryPhone = '555-0123';
+        delete wrapped.secondaryPhone;
+
+        const changes = wrapped.changes();
+        expect(changes).toHaveLength(1);
+        expect(changes[0]).toMatchObject({oldValue: '555-0199', newValue: AUDIT_REMOVED});
+    });
+
+    it('should collapse re-adding a field after deletion', () => {
+        const wrapped = Audit(new Contact());
+
+        delete wrapped.secondaryPhone;
+        wrapped.secondaryPhone = '555-0123';
+
+        expect(wrapped.changes()[0]).toMatchObject({oldValue: '555-0199', newValue: '555-0123'});
+    });
+
+    it('should not record deletion of untracked or missing fields', () => {
+        const contact = new Contact();
+        const wrapped = Audit(contact);
+
+        delete wrapped.note;
+        Reflect.deleteProperty(wrapped, 'missing');
+
+        expect(wrapped.changes()).toHaveLength(0);
+        expect('note' in contact).toBe(false);
+    });
+
+    it('should record deletion under class-level audit', () => {
+        @Auditable()
+        class Settings {
+            theme?: string = 'dark';
+        }
+
+        const wrapped = Audit(new Settings());
+        delete wrapped.theme;
+
+        expect(wrapped.changes()[0]).toMatchObject({field: 'theme', oldValue: 'dark', newValue: AUDIT_REMOVED});
+    });
+
+    it('should record deletion of nested properties in deep mode', () => {
+        class Profile {
+            @AuditField({deep: true})
+            phones: { home?: string; work?: string } = {home: '1', work: '2'};
+        }
+
+        const wrapped = Audit(new Profile());
+        delete wrapped.phones.work;
+
+        expect(wrapped.changes()[0]).toMatchObject({field: 'phones.work', oldValue: '2', newValue: AUDIT_REMOVED});
+    });
+});
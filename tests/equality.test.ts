@@ -0,0 +1,167 @@
+import {
+    Audit,
+    AuditField,
+    Auditable,
+    auditComparators,
+    registerAuditComparator,
+    unregisterAuditComparator
+} from '../src';
+
+describe('Custom Equality Comparators', () => {
+    describe('auditComparators', () => {
+        it('should compare structurally with deep', () => {
+            expect(auditComparators.deep({a: [1, 2]}, {a: [1, 2]})).toBe(true);
+            expect(auditComparators.deep({a: [1, 2]}, {a: [2, 1]})).toBe(false);
+        });
+
+        it('should compare Dates by time with dateTime', () => {
+            expect(auditComparators.dateTime(new Date(1000), new Date(1000))).toBe(true);
+            expect(auditComparators.dateTime(new Date(1000), new Date(2000))).toBe(false);
+            expect(auditComparators.dateTime(new Date(1000), 1000)).toBe(false);
+        });
+
+        it('should compare numbers within a tolerance', () => {
+            const equals = auditComparators.tolerance(0.01);
+
+            expect(equals(1.001, 1.005)).toBe(true);
+            expect(equals(1, 1.1)).toBe(false);
+        });
+
+        it('should compare strings ignoring case with caseInsensitive', () => {
+            expect(auditComparators.caseInsensitive('Alice@Example.com', 'alice@example.com')).toBe(true);
+            expect(auditComparators.caseInsensitive('alice', 'bob')).toBe(false);
+        });
+    });
+
+    describe('@AuditField({ equals })', () => {
+        class Profile {
+            @AuditField({equals: auditComparators.dateTime})
+            birthday = new Date('1990-01-01T00:00:00.000Z');
+
+            @AuditField({equals: auditComparators.caseInsensitive})
+            email = 'alice@example.com';
+
+            @AuditField({equals: auditComparators.deep})
+            tags = ['a', 'b'];
+
+            @AuditField()
+            updatedAt = new Date(0);
+        }
+
+        it('should not record assignments the comparator considers equal', () => {
+            const wrapped = Audit(new Profile());
+
+            wrapped.birthday = new Date('1990-01-01T00:00:00.000Z');
+            wrapped.email = 'ALICE@example.com';
+            wrapped.tags = ['a', 'b'];
+
+            expect(wrapped.changes()).toHaveLength(0);
+            expect(wrapped.email).toBe('ALICE@example.com');
+        });
+
+        it('should keep using Object.is for fields without a comparator', () => {
+            const wrapped = Audit(new Profile());
+
+            wrapped.updatedAt = new Date(0);
+
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+
+        it('should drop a collapsed change that returns to an equal value', () => {
+            const wrapped = Audit(new Profile());
+
+            wrapped.email = 'bob@example.com';
+            expect(wrapped.changes()).toHaveLength(1);
+
+            wrapped.email = 'Alice@Example.com';
+            expect(wrapped.changes()).toHaveLength(0);
+        });
+
+        it('should consult the comparator for in-place array mutations', () => {
+            const wrapped = Audit(new Profile());
+
+            wrapped.tags.push('c');
+            wrapped.tags.pop();
+
+            expect(wrapped.changes()).toHaveLength(0);
+        });
+
+        it('should record the change when the comparator throws', () => {
+            class Broken {
+                @AuditField({
+                    equals: () => {
+                        throw new Error('comparator failure');
+                    }
+                })
+                value = 1;
+            }
+
+            const wrapped = Audit(new Broken());
+            wrapped.value = 2;
+
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+    });
+
+    describe('@Auditable({ equals })', () => {
+        @Auditable({equals: auditComparators.deep})
+        class Settings {
+            layout = {columns: 2};
+            theme = 'dark';
+
+            @AuditField({equals: auditComparators.caseInsensitive})
+            locale = 'en-GB';
+        }
+
+        it('should use the class default for fields without a comparator', () => {
+            const wrapped = Audit(new Settings());
+
+            wrapped.layout = {columns: 2};
+            wrapped.locale = 'EN-gb';
+            wrapped.theme = 'light';
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['theme']);
+        });
+    });
+
+    describe('registerAuditComparator', () => {
+        class Money {
+            constructor(public amount: number, public currency: string) {
+            }
+        }
+
+        @Auditable()
+        class Invoice {
+            total = new Money(10, 'EUR');
+            lines = new Map<string, Money>([['a', new Money(10, 'EUR')]]);
+        }
+
+        beforeEach(() => {
+            registerAuditComparator(Money, (a, b) => a.amount === b.amount && a.currency === b.currency);
+        });
+
+        afterEach(() => {
+            unregisterAuditComparator(Money);
+        });
+
+        it('should compare values of the registered type', () => {
+            const wrapped = Audit(new Invoice());
+
+            wrapped.total = new Money(10, 'EUR');
+            wrapped.lines.set('a', new Money(10, 'EUR'));
+            expect(wrapped.changes()).toHaveLength(0);
+
+            wrapped.total = new Money(12, 'EUR');
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+
+        it('should stop applying once unregistered', () => {
+            unregisterAuditComparator(Money);
+            const wrapped = Audit(new Invoice());
+
+            wrapped.total = new Money(10, 'EUR');
+
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import {Audit, AuditField} from '../src';
+import {ChangeTrackerImpl} from '../src/tracking';
+
+describe('Change History', () => {
+    class Invoice {
+        @AuditField()
+        status: string = 'draft';
+
+        @AuditField()
+        amount: number = 0;
+    }
+
+    describe('ChangeTracker journal', () => {
+        it('should not retain individual changes by default', () => {
+            const tracker = new ChangeTrackerImpl();
+
+            tracker.trackChange('status', 'draft', 'sent');
+
+            expect(tracker.getHistory()).toEqual([]);
+            expect(tracker.getChanges()).toHaveLength(1);
+        });
+
+        it('should retain every change with increasing sequence numbers in history mode', () => {
+            const tracker = new ChangeTrackerImpl({history: true});
+
+            tracker.trackChange('status', 'draft', 'sent');
+            tracker.trackChange('status', 'sent', 'paid');
+            tracker.trackChange('amount', 0, 100);
+
+            const history = tracker.getHistory();
+            expect(history).toHaveLength(3);
+            expect(history[1]!.sequence).toBeGreaterThan(history[0]!.sequence);
+            expect(history[2]!.sequence).toBeGreaterThan(history[1]!.sequence);
+            expect(history[1]).toMatchObject({field: 'status', oldValue: 'sent', newValue: 'paid'});
+            expect(history.every(r => Object.isFrozen(r))).toBe(true);
+        });
+
+        it('should derive the collapsed view from the same journal', () => {
+            const tracker = new ChangeTrackerImpl({history: true});
+
+            tracker.trackChange('status', 'draft', 'sent');
+            tracker.trackChange('amount', 0, 100);
+            tracker.trackChange('status', 'sent', 'paid');
+
+            const history = tracker.getHistory();
+            const changes = tracker.getChanges();
+            expect(changes).toHaveLength(2);
+            expect(changes[0]).toMatchObject({field: 'status', oldValue: 'draft', newValue: 'paid', sequence: history[2]!.sequence});
+            expect(changes[1]).toMatchObject({field: 'amount', oldValue: 0, newValue: 100, sequence: history[1]!.sequence});
+        });
+
+        it('should clear the journal on reset', () => {
+            const tracker = new ChangeTrackerImpl({history: true});
+
+            tracker.trackChange('status', 'draft', 'sent');
+            tracker.reset();
+
+            expect(tracker.getHistory()).toEqual([]);
+            expect(tracker.getChanges()).toEqual([]);
+        });
+    });
+
+    describe('AuditHandle.history', () => {
+        it('should expose intermediate states alongside collapsed changes', () => {
+            const wrapped = Audit(new Invoice(), {history: true});
+
+            wrapped.status = 'sent';
+            wrapped.status = 'overdue';
+            wrapped.status = 'paid';
+
+            expect(wrapped.history().map(r => r.newValue)).toEqual(['sent', 'overdue', 'paid']);
+            expect(wrapped.changes()).toHaveLength(1);
+            expect(wrapped.changes()[0]).toMatchObject({oldValue: 'draft', newValue: 'paid'});
+        });
+
+        it('should return an empty history when history mode is off', () => {
+            const wrapped = Audit(new Invoice());
+
+            wrapped.status = 'sent';
+
+            expect(wrapped.history()).toEqual([]);
+        });
+
+        it('should return a copy that callers cannot use to alter the journal', () => {
+            const wrapped = Audit(new Invoice(), {history: true});
+
+            wrapped.amount = 10;
+            wrapped.history().length = 0;
+
+            expect(wrapped.history()).toHaveLength(1);
+        });
+    });
+});
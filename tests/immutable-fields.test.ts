@@ -0,0 +1,172 @@
+import {Audit, Auditable, AuditField, AuditReadonly, AuditVetoError, AuditWriteOnce, getAuditFieldOptions} from '../src';
+
+describe('Immutable Fields', () => {
+    @Auditable()
+    class Customer {
+        @AuditReadonly()
+        id = 42;
+
+        @AuditWriteOnce()
+        verifiedAt?: number;
+
+        name = 'Alice';
+    }
+
+    describe('@AuditReadonly', () => {
+        it('should reject assignments and keep the original value', () => {
+            const wrapped = Audit(new Customer());
+
+            expect(() => {
+                wrapped.id = 999;
+            }).toThrow(AuditVetoError);
+
+            expect(wrapped.id).toBe(42);
+            expect(wrapped.hasChanges()).toBe(false);
+        });
+
+        it('should record the rejected attempt', () => {
+            const wrapped = Audit(new Customer(), {onVeto: 'ignore'});
+
+            wrapped.id = 999;
+
+            expect(wrapped.rejectedChanges()).toEqual([{
+                change: expect.objectContaining({field: 'id', oldValue: 42, newValue: 999}),
+                reason: 'field is read-only'
+            }]);
+        });
+
+        it('should reject deletions', () => {
+            const wrapped = Audit(new Customer(), {onVeto: 'ignore'});
+
+            delete (wrapped as Partial<Customer>).id;
+
+            expect(wrapped.id).toBe(42);
+        });
+
+        it('should allow assignments of the same value', () => {
+            const wrapped = Audit(new Customer());
+
+            expect(() => {
+                wrapped.id = 42;
+            }).not.toThrow();
+        });
+
+        it('should leave other fields writable', () => {
+            const wrapped = Audit(new Customer());
+
+            wrapped.name = 'Bob';
+
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+    });
+
+    describe('nested mutations', () => {
+        class Account {
+            @AuditReadonly()
+            roles = ['member'];
+
+            @AuditReadonly()
+            limits = new Map([['daily', 100]]);
+
+            @AuditField({readonly: true, deep: true})
+            address = {city: 'Paris'};
+
+            @AuditWriteOnce()
+            tags?: Set<string>;
+        }
+
+        it('should reject array mutations of a read-only field', () => {
+            const account = new Account();
+            const wrapped = Audit(account, {onVeto: 'ignore'});
+
+            wrapped.roles.push('admin');
+            wrapped.roles[0] = 'guest';
+            wrapped.roles.length = 0;
+
+            expect(account.roles).toEqual(['member']);
+            expect(wrapped.hasChanges()).toBe(false);
+            expect(wrapped.rejectedChanges()).toHaveLength(3);
+        });
+
+        it('should reject Map updates and deep writes of a read-only field', () => {
+            const account = new Account();
+            const wrapped = Audit(account);
+
+            expect(() => wrapped.limits.set('daily', 1000)).toThrow('field is read-only');
+            expect(() => wrapped.limits.clear()).toThrow(AuditVetoError);
+            expect(() => {
+                wrapped.address.city = 'Lyon';
+            }).toThrow('Change to "address.city" was rejected: field is read-only');
+
+            expect(account.limits).toEqual(new Map([['daily', 100]]));
+            expect(account.address).toEqual({city: 'Paris'});
+        });
+
+        it('should reject mutations of a write-once field once it is written', () => {
+            const account = new Account();
+            const wrapped = Audit(account);
+
+            wrapped.tags = new Set(['new']);
+
+            expect(() => wrapped.tags?.add('vip')).toThrow('field can only be written once');
+            expect(account.tags).toEqual(new Set(['new']));
+        });
+    });
+
+    describe('@AuditWriteOnce', () => {
+        it('should allow the first assignment and track it', () => {
+            const wrapped = Audit(new Customer());
+
+            wrapped.verifiedAt = 1000;
+
+            expect(wrapped.verifiedAt).toBe(1000);
+            expect(wrapped.changes()).toEqual([
+                expect.objectContaining({field: 'verifiedAt', oldValue: undefined, newValue: 1000})
+            ]);
+        });
+
+        it('should reject later assignments', () => {
+            const wrapped = Audit(new Customer());
+            wrapped.verifiedAt = 1000;
+
+            expect(() => {
+                wrapped.verifiedAt = 2000;
+            }).toThrow('Change to "verifiedAt" was rejected: field can only be written once');
+
+            expect(wrapped.verifiedAt).toBe(1000);
+        });
+
+        it('should treat null as not written yet', () => {
+            class User {
+                @AuditWriteOnce()
+                id: number | null = null;
+            }
+            const wrapped = Audit(new User());
+
+            wrapped.id = 5;
+
+            expect(wrapped.id).toBe(5);
+            expect(() => {
+                wrapped.id = null;
+            }).toThrow('field can only be written once');
+        });
+
+        it('should reject changes to a value set before auditing', () => {
+            const customer = new Customer();
+            customer.verifiedAt = 1000;
+            const wrapped = Audit(customer, {onVeto: 'ignore'});
+
+            wrapped.verifiedAt = 2000;
+
+            expect(wrapped.verifiedAt).toBe(1000);
+            expect(wrapped.rejectedChanges()).toHaveLength(1);
+        });
+    });
+
+    it('should expose the options through getAuditFieldOptions', () => {
+        const wrapped = Audit(new Customer());
+
+        expect(getAuditFieldOptions(wrapped, 'id')).toEqual({readonly: true});
+        expect(getAuditFieldOptions(wrapped, 'verifiedAt')).toEqual({writeOnce: true});
+    });
+});
@@ -0,0 +1,136 @@
+import {applyJsonPatch, Audit, AuditField, Auditable, toJsonPatch} from '../src';
+
+describe('JSON Patch', () => {
+    @Auditable()
+    class Customer {
+        name: string = 'Alice';
+        nickname?: string | undefined = 'Al';
+        tags: string[] = ['new'];
+        settings = new Map<string, string>([['theme', 'dark']]);
+    }
+
+    class Order {
+        @AuditField({deep: true})
+        address = {city: 'Paris', 'zip/code': '75001'};
+    }
+
+    describe('toJsonPatch', () => {
+        it('should convert field changes into replace operations', () => {
+            const wrapped = Audit(new Customer());
+
+            wrapped.name = 'Bob';
+
+            expect(toJsonPatch(wrapped.changes())).toEqual([
+                {op: 'replace', path: '/name', value: 'Bob'}
+            ]);
+        });
+
+        it('should convert deletions into remove operations', () => {
+            const wrapped = Audit(new Customer());
+
+            delete wrapped.nickname;
+
+            expect(toJsonPatch(wrapped.changes())).toEqual([{op: 'remove', path: '/nickname'}]);
+        });
+
+        it('should convert additions into add operations', () => {
+            const wrapped = Audit(new Customer());
+
+            wrapped.settings.set('locale', 'fr');
+
+            expect(toJsonPatch(wrapped.changes())).toEqual([
+                {op: 'add', path: '/settings/locale', value: 'fr'}
+            ]);
+        });
+
+        it('should escape deep paths as JSON Pointers', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.address.city = 'Lyon';
+            wrapped.address['zip/code'] = '69001';
+
+            expect(toJsonPatch(wrapped.changes())).toEqual([
+                {op: 'replace', path: '/address/city', value: 'Lyon'},
+                {op: 'replace', path: '/address/zip~1code', value: '69001'}
+            ]);
+        });
+    });
+
+    describe('applyJsonPatch', () => {
+        it('should apply operations through the audit proxy', () => {
+            const wrapped = Audit(new Customer());
+
+            applyJsonPatch(wrapped, [
+                {op: 'replace', path: '/name', value: 'Bob'},
+                {op: 'remove', path: '/nickname'}
+            ]);
+
+            expect(wrapped.name).toBe('Bob');
+            expect('nickname' in wrapped).toBe(false);
+            expect(wrapped.changes().map(change => change.field)).toEqual(['name', 'nickname']);
+        });
+
+        it('should insert, append and remove array elements', () => {
+            const wrapped = Audit(new Customer());
+
+            applyJsonPatch(wrapped, [
+                {op: 'add', path: '/tags/-', value: 'vip'},
+                {op: 'add', path: '/tags/0', value: 'first'},
+                {op: 'remove', path: '/tags/1'}
+            ]);
+
+            expect(wrapped.tags).toEqual(['first', 'vip']);
+            expect(wrapped.changes()).toHaveLength(1);
+            expect(wrapped.changes()[0]?.oldValue).toEqual(['new']);
+        });
+
+        it('should update Map entries', () => {
+            const wrapped = Audit(new Customer());
+
+            applyJsonPatch(wrapped, [
+                {op: 'add', path: '/settings/locale', value: 'fr'},
+                {op: 'replace', path: '/settings/theme', value: 'light'}
+            ]);
+
+            expect(wrapped.settings.get('theme')).toBe('light');
+            expect(wrapped.changes().map(change => change.path)).toEqual([
+                ['settings', 'locale'],
+                ['settings', 'theme']
+            ]);
+        });
+
+        it('should support move, copy and test operations', () => {
+            const wrapped = Audit(new Customer());
+
+            applyJsonPatch(wrapped, [
+                {op: 'test', path: '/name', value: 'Alice'},
+                {op: 'copy', from: '/name', path: '/nickname'},
+                {op: 'move', from: '/tags/0', path: '/tags/-'}
+            ]);
+
+            expect(wrapped.nickname).toBe('Alice');
+            expect(() => applyJsonPatch(wrapped, [{op: 'test', path: '/name', value: 'Bob'}]))
+                .toThrow('JSON Patch test failed at /name');
+        });
+
+        it('should round-trip changes onto another object', () => {
+            const source = Audit(new Order());
+            const replica = Audit(new Order());
+
+            source.address.city = 'Lyon';
+            applyJsonPatch(replica, toJsonPatch(source.changes()));
+
+            expect(replica.address.city).toBe('Lyon');
+            expect(replica.changes()[0]?.path).toEqual(['address', 'city']);
+        });
+
+        it('should reject paths that do not exist', () => {
+            const wrapped = Audit(new Customer());
+
+            expect(() => applyJsonPatch(wrapped, [{op: 'replace', path: '/missing/value', value: 1}]))
+                .toThrow('JSON Patch path not found: /missing/value');
+            expect(() => applyJsonPatch(wrapped, [{op: 'remove', path: '/tags/5'}]))
+                .toThrow('Invalid JSON Patch array index: /tags/5');
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import {Audit, AuditField, Auditable, toMergePatch} from '../src';
+
+describe('JSON Merge Patch', () => {
+    @Auditable()
+    class Customer {
+        name: string = 'Alice';
+        nickname?: string | undefined = 'Al';
+        tags: string[] = ['new'];
+        settings = new Map<string, string>([['theme', 'dark']]);
+        flags = new Set<string>(['beta']);
+    }
+
+    class Order {
+        @AuditField({deep: true})
+        address: { city: string; zip?: string; geo?: { lat: number; lng: number } } = {city: 'Paris', zip: '75001'};
+
+        @AuditField({deep: true})
+        lines = [{sku: 'A', qty: 1}];
+    }
+
+    it('should return an empty document without changes', () => {
+        expect(toMergePatch(Audit(new Customer()))).toEqual({});
+    });
+
+    it('should include changed fields and null for removals', () => {
+        const wrapped = Audit(new Customer());
+
+        wrapped.name = 'Bob';
+        delete wrapped.nickname;
+
+        expect(toMergePatch(wrapped)).toEqual({name: 'Bob', nickname: null});
+    });
+
+    it('should nest deep paths', () => {
+        const wrapped = Audit(new Order());
+
+        wrapped.address.city = 'Lyon';
+
+        expect(toMergePatch(wrapped)).toEqual({address: {city: 'Lyon'}});
+    });
+
+    it('should diff replaced plain objects member by member', () => {
+        const wrapped = Audit(new Order());
+
+        wrapped.address = {city: 'Paris', geo: {lat: 1, lng: 2}};
+
+        expect(toMergePatch(wrapped)).toEqual({address: {zip: null, geo: {lat: 1, lng: 2}}});
+    });
+
+    it('should emit whole arrays and Sets', () => {
+        const customer = Audit(new Customer());
+        const order = Audit(new Order());
+
+        customer.tags.push('vip');
+        customer.flags.add('admin');
+        order.lines[0]!.qty = 3;
+
+        expect(toMergePatch(customer)).toEqual({tags: ['new', 'vip'], flags: ['beta', 'admin']});
+        expect(toMergePatch(order)).toEqual({lines: [{sku: 'A', qty: 3}]});
+    });
+
+    it('should emit Map entries as object members', () => {
+        const wrapped = Audit(new Customer());
+
+        wrapped.settings.set('locale', 'fr');
+        wrapped.settings.delete('theme');
+
+        expect(toMergePatch(wrapped)).toEqual({settings: {locale: 'fr', theme: null}});
+    });
+
+    it('should produce a JSON-serializable document', () => {
+        const wrapped = Audit(new Customer());
+
+        wrapped.settings = new Map([['theme', 'light']]);
+
+        expect(JSON.parse(JSON.stringify(toMergePatch(wrapped)))).toEqual({settings: {theme: 'light'}});
+    });
+});
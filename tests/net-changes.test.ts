@@ -0,0 +1,122 @@
+import {Audit, AuditField, auditComparators} from '../src';
+import {ChangeTrackerImpl} from '../src/tracking';
+
+describe('Net Changes', () => {
+    describe('ChangeTracker netChanges option', () => {
+        it('should drop a field whose final value equals its first old value', () => {
+            const tracker = new ChangeTrackerImpl({netChanges: true});
+
+            tracker.trackChange('status', 'draft', 'review');
+            tracker.trackChange('status', 'review', 'draft');
+
+            expect(tracker.getChanges()).toHaveLength(0);
+            expect(tracker.hasChanges()).toBe(false);
+        });
+
+        it('should track the field again after it dropped out', () => {
+            const tracker = new ChangeTrackerImpl({netChanges: true});
+
+            tracker.trackChange('status', 'draft', 'review');
+            tracker.trackChange('status', 'review', 'draft');
+            tracker.trackChange('status', 'draft', 'published');
+
+            expect(tracker.getChanges()).toEqual([
+                expect.objectContaining({field: 'status', oldValue: 'draft', newValue: 'published'})
+            ]);
+        });
+
+        it('should keep collapsing a->b->a into a record by default', () => {
+            const tracker = new ChangeTrackerImpl();
+
+            tracker.trackChange('status', 'draft', 'review');
+            tracker.trackChange('status', 'review', 'draft');
+
+            expect(tracker.getChanges()).toHaveLength(1);
+        });
+
+        it('should keep the full journal in history mode', () => {
+            const tracker = new ChangeTrackerImpl({netChanges: true, history: true});
+
+            tracker.trackChange('status', 'draft', 'review');
+            tracker.trackChange('status', 'review', 'draft');
+
+            expect(tracker.getChanges()).toHaveLength(0);
+            expect(tracker.getHistory()).toHaveLength(2);
+        });
+    });
+
+    describe('Audit netChanges option', () => {
+        class Document {
+            @AuditField()
+            title = 'Draft';
+
+            @AuditField({equals: auditComparators.caseInsensitive})
+            slug = 'draft';
+
+            @AuditField()
+            tags = ['a'];
+
+            @AuditField()
+            subtitle?: string | undefined;
+        }
+
+        it('should report no changes for no-op edits', () => {
+            const wrapped = Audit(new Document(), {netChanges: true});
+
+            wrapped.title = 'Final';
+            wrapped.title = 'Draft';
+
+            expect(wrapped.changes()).toHaveLength(0);
+            expect(wrapped.hasChanges()).toBe(false);
+        });
+
+        it('should report the remaining net changes', () => {
+            const wrapped = Audit(new Document(), {netChanges: true});
+
+            wrapped.title = 'Final';
+            wrapped.title = 'Draft';
+            wrapped.slug = 'final';
+
+            expect(wrapped.changes().map(change => change.field)).toEqual(['slug']);
+            expect(wrapped.hasChanges()).toBe(true);
+        });
+
+        it('should use the configured comparator', () => {
+            const wrapped = Audit(new Document(), {netChanges: true});
+
+            wrapped.slug = 'final';
+            wrapped.slug = 'DRAFT';
+
+            expect(wrapped.changes()).toHaveLength(0);
+        });
+
+        it('should drop array mutations that restore the original elements', () => {
+            const wrapped = Audit(new Document(), {netChanges: true});
+
+            wrapped.tags.push('b');
+            wrapped.tags.pop();
+
+            expect(wrapped.changes()).toHaveLength(0);
+            expect(wrapped.hasChanges()).toBe(false);
+        });
+
+        it('should keep array mutations that change the elements', () => {
+            const wrapped = Audit(new Document(), {netChanges: true});
+
+            wrapped.tags.push('b');
+            wrapped.tags.push('c');
+            wrapped.tags.pop();
+
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+
+        it('should treat removing a value that was absent as a no-op', () => {
+            const wrapped = Audit(new Document(), {netChanges: true});
+
+            wrapped.subtitle = 'Temporary';
+            delete wrapped.subtitle;
+
+            expect(wrapped.changes()).toHaveLength(0);
+        });
+    });
+});
@@ -4,7 +4,7 @@
  */
 
 import {Audit} from '../src';
-import {Auditable} from '../src/decorators';
+import {Auditable, AuditField} from '../src/decorators';
 
 describe('Different Object Types', () => {
     describe('Plain objects', () => {
@@ -345,6 +345,38 @@ describe('Different Object Types', () => {
             expect(wrapped.field).toBe('frozen'); // Value should remain unchanged
         });
 
+        it('should read collections and deep objects held by frozen objects', () => {
+            class Config {
+                @AuditField()
+                tags = ['a'];
+
+                @AuditField()
+                limits = new Map([['daily', 1]]);
+
+                @AuditField({deep: true})
+                address = Object.freeze({city: 'Paris', geo: {lat: 48.9}});
+            }
+            const config = Object.freeze(new Config());
+
+            const wrapped = Audit(config);
+
+            expect(wrapped.tags.length).toBe(1);
+            expect(wrapped.limits.get('daily')).toBe(1);
+            expect(wrapped.address.geo).toBe(config.address.geo);
+        });
+
+        it('should read frozen nested objects in deep mode', () => {
+            class Customer {
+                @AuditField({deep: true})
+                address = Object.freeze({city: 'Paris', geo: {lat: 48.9}});
+            }
+            const customer = new Customer();
+            const wrapped = Audit(customer);
+
+            expect(wrapped.address.geo).toBe(customer.address.geo);
+            expect(wrapped.address.geo.lat).toBe(48.9);
+        });
+
         it('should handle sealed objects', () => {
             const sealedObj = Object.seal({
                 field: 'sealed'
@@ -1,4 +1,4 @@
-import { Audit } from '../src';
+import { Audit, getAuditHandle } from '../src';
 import { AuditField, Auditable } from '../src/decorators';
 
 describe('Proxy Wrapper System', () => {
@@ -69,13 +69,13 @@ describe('Proxy Wrapper System', () => {
       const nameChange = changes.find(c => c.field === 'name');
       const ageChange = changes.find(c => c.field === 'age');
       
-      expect(nameChange).toEqual({
+      expect(nameChange).toMatchObject({
         field: 'name',
         oldValue: 'initial',
         newValue: 'updated'
       });
       
-      expect(ageChange).toEqual({
+      expect(ageChange).toMatchObject({
         field: 'age',
         oldValue: 0,
         newValue: 25
@@ -192,4 +192,43 @@ describe('Proxy Wrapper System', () => {
       expect(() => Audit('string' as any)).toThrow('Audit target must be a non-null object');
     });
   });
+
+  describe('Handle name collisions', () => {
+    class Order {
+      @AuditField()
+      history: string[] = ['created'];
+
+      @AuditField()
+      status = 'open';
+
+      undo(): string {
+        return 'order method';
+      }
+    }
+
+    it('should return fields and methods of the object over handle methods', () => {
+      const wrapped = Audit(new Order(), { history: true });
+
+      expect(wrapped.history).toEqual(['created']);
+      expect(wrapped.undo()).toBe('order method');
+      expect(typeof wrapped.changes).toBe('function');
+    });
+
+    it('should reach the handle methods through getAuditHandle', () => {
+      const order = new Order();
+      const wrapped = Audit(order, { history: true });
+
+      wrapped.history.push('paid');
+      wrapped.status = 'paid';
+      const handle = getAuditHandle(wrapped);
+
+      expect(handle.history().map(record => record.field)).toEqual(['history', 'status']);
+      expect(handle.undo()).toBe(true);
+      expect(order.status).toBe('open');
+    });
+
+    it('should throw for values that are not audited', () => {
+      expect(() => getAuditHandle(new Order())).toThrow('Value is not an audited object');
+    });
+  });
 });
\ No newline at end of file
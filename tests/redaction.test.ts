@@ -0,0 +1,230 @@
+import {createHmac} from 'crypto';
+import {
+    Audit,
+    AUDIT_REDACTED,
+    AUDIT_REMOVED,
+    AuditField,
+    AuditSensitive,
+    AuditSession,
+    Auditable,
+    serializeChanges,
+    setAuditRedactionSalt,
+    toJsonPatch,
+    toMergePatch
+} from '../src';
+
+describe('Sensitive Field Redaction', () => {
+    @Auditable()
+    class Identity {
+        email = 'alice@example.com';
+
+        @AuditSensitive()
+        password = 'hunter2';
+
+        @AuditSensitive({strategy: 'mask'})
+        ssn = '123-45-6789';
+
+        @AuditSensitive({strategy: 'hash', salt: 'pepper'})
+        pin = '1234';
+
+        @AuditField({redact: true})
+        secretAnswer?: string | undefined = 'blue';
+    }
+
+    afterEach(() => {
+        setAuditRedactionSalt();
+    });
+
+    it('should replace values with a placeholder by default', () => {
+        const wrapped = Audit(new Identity());
+
+        wrapped.password = 'correct horse';
+
+        expect(wrapped.changes()[0]).toMatchObject({
+            field: 'password',
+            oldValue: AUDIT_REDACTED,
+            newValue: AUDIT_REDACTED
+        });
+        expect(wrapped.password).toBe('correct horse');
+    });
+
+    it('should keep the last 4 characters with the mask strategy', () => {
+        const wrapped = Audit(new Identity());
+
+        wrapped.ssn = '987-65-4321';
+
+        expect(wrapped.changes()[0]).toMatchObject({oldValue: '*******6789', newValue: '*******4321'});
+    });
+
+    it('should store a salted hash with the hash strategy', () => {
+        const wrapped = Audit(new Identity());
+
+        wrapped.pin = '0000';
+
+        const expected = createHmac('sha256', 'pepper').update('0000').digest('hex');
+        expect(wrapped.changes()[0]?.newValue).toBe(expected);
+        expect(wrapped.changes()[0]?.oldValue).not.toBe('1234');
+    });
+
+    it('should use the global salt when no field salt is configured', () => {
+        class Account {
+            @AuditSensitive({strategy: 'hash'})
+            token = 'a';
+        }
+
+        setAuditRedactionSalt('global-salt');
+        const wrapped = Audit(new Account());
+        wrapped.token = 'b';
+
+        expect(wrapped.changes()[0]?.newValue).toBe(createHmac('sha256', 'global-salt').update('b').digest('hex'));
+    });
+
+    it('should support @AuditField({ redact: true })', () => {
+        const wrapped = Audit(new Identity());
+
+        delete wrapped.secretAnswer;
+
+        expect(wrapped.changes()[0]).toMatchObject({oldValue: AUDIT_REDACTED, newValue: AUDIT_REMOVED});
+    });
+
+    it('should never keep raw values in the history', () => {
+        const wrapped = Audit(new Identity(), {history: true});
+
+        wrapped.password = 'swordfish';
+        wrapped.password = 'letmein';
+
+        const serialized = JSON.stringify([wrapped.changes(), wrapped.history()]);
+        expect(serialized).not.toContain('hunter2');
+        expect(serialized).not.toContain('swordfish');
+        expect(serialized).not.toContain('letmein');
+    });
+
+    it('should not drop redacted changes in net-change mode', () => {
+        const wrapped = Audit(new Identity(), {netChanges: true});
+
+        wrapped.password = 'first';
+        wrapped.password = 'second';
+
+        expect(wrapped.changes()).toHaveLength(1);
+    });
+
+    it('should drop sensitive fields set back to their original value in net-change mode', () => {
+        const wrapped = Audit(new Identity(), {netChanges: true});
+
+        wrapped.password = 'x';
+        wrapped.password = 'hunter2';
+        delete wrapped.secretAnswer;
+        wrapped.secretAnswer = 'blue';
+
+        expect(wrapped.changes()).toEqual([]);
+        expect(wrapped.hasChanges()).toBe(false);
+    });
+
+    it('should compare sensitive fields with their value at the last reset', () => {
+        const wrapped = Audit(new Identity(), {netChanges: true});
+
+        wrapped.password = 'committed';
+        wrapped.resetAudit?.();
+        wrapped.password = 'hunter2';
+
+        expect(wrapped.hasChanges()).toBe(true);
+
+        wrapped.password = 'committed';
+
+        expect(wrapped.hasChanges()).toBe(false);
+    });
+
+    it('should restore sensitive fields when reverting', () => {
+        const wrapped = Audit(new Identity(), {history: true});
+
+        wrapped.email = 'bob@example.com';
+        wrapped.password = 'changed';
+        wrapped.password = 'changed again';
+        wrapped.revert();
+
+        expect(wrapped.email).toBe('alice@example.com');
+        expect(wrapped.password).toBe('hunter2');
+        expect(wrapped.changes()).toHaveLength(0);
+    });
+
+    it('should restore a sensitive field when reverting only that field', () => {
+        const wrapped = Audit(new Identity());
+
+        wrapped.email = 'bob@example.com';
+        delete wrapped.secretAnswer;
+        wrapped.revertField('secretAnswer');
+
+        expect(wrapped.secretAnswer).toBe('blue');
+        expect(wrapped.changes().map(change => change.field)).toEqual(['email']);
+    });
+
+    it('should restore the values at the last reset', () => {
+        const wrapped = Audit(new Identity());
+
+        wrapped.password = 'committed';
+        wrapped.resetAudit?.();
+        wrapped.password = 'pending';
+        wrapped.revert();
+
+        expect(wrapped.password).toBe('committed');
+    });
+
+    it('should refuse to undo or redo redacted changes and keep them', () => {
+        const wrapped = Audit(new Identity(), {history: true});
+
+        wrapped.email = 'bob@example.com';
+        wrapped.password = 'changed';
+
+        expect(wrapped.undo()).toBe(false);
+        expect(wrapped.password).toBe('changed');
+        expect(wrapped.changes().map(change => change.field)).toEqual(['email', 'password']);
+        expect(wrapped.history()).toHaveLength(2);
+    });
+
+    it('should roll back sensitive fields with the session', () => {
+        const session = new AuditSession();
+        const identity = session.track(new Identity(), {entityType: 'Identity', id: 1});
+
+        identity.password = 'changed';
+        session.rollback();
+
+        expect(identity.password).toBe('hunter2');
+        expect(session.hasChanges()).toBe(false);
+    });
+
+    it('should serialize redacted changes whose values look identical', () => {
+        const wrapped = Audit(new Identity());
+
+        wrapped.password = 'changed';
+        wrapped.ssn = '000-00-6789';
+
+        expect(serializeChanges(wrapped.changes())).toEqual([
+            expect.objectContaining({field: 'password', oldValue: AUDIT_REDACTED, newValue: AUDIT_REDACTED}),
+            expect.objectContaining({field: 'ssn', oldValue: '*******6789', newValue: '*******6789'})
+        ]);
+    });
+
+    it('should leave redacted changes out of JSON Patch and Merge Patch documents', () => {
+        const wrapped = Audit(new Identity());
+
+        wrapped.email = 'bob@example.com';
+        wrapped.password = 'changed';
+        delete wrapped.secretAnswer;
+
+        expect(toJsonPatch(wrapped.changes())).toEqual([
+            {op: 'replace', path: '/email', value: 'bob@example.com'}
+        ]);
+        expect(toMergePatch(wrapped)).toEqual({email: 'bob@example.com'});
+    });
+
+    it('should redact snapshot diffs', () => {
+        const wrapped = Audit(new Identity());
+        const snapshot = wrapped.snapshot();
+
+        wrapped.password = 'changed';
+
+        expect(wrapped.diffSince(snapshot)).toEqual([
+            expect.objectContaining({field: 'password', oldValue: AUDIT_REDACTED, newValue: AUDIT_REDACTED})
+        ]);
+    });
+});
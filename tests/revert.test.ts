@@ -0,0 +1,186 @@
+import {Audit, AuditField, Auditable} from '../src';
+
+describe('Revert', () => {
+    @Auditable()
+    class Order {
+        status: string = 'draft';
+        total: number = 0;
+        note?: string = 'fragile';
+        items: string[] = ['a', 'b'];
+        tags: Set<string> = new Set(['new']);
+        prices: Map<string, number> = new Map([['a', 1]]);
+        shipping = {city: 'Berlin', zip: '10115'};
+    }
+
+    describe('revert()', () => {
+        it('should restore every tracked field to its original value', () => {
+            const order = new Order();
+            const wrapped = Audit(order);
+
+            wrapped.status = 'placed';
+            wrapped.status = 'paid';
+            wrapped.total = 99;
+            delete wrapped.note;
+
+            wrapped.revert();
+
+            expect(order.status).toBe('draft');
+            expect(order.total).toBe(0);
+            expect(order.note).toBe('fragile');
+        });
+
+        it('should not produce change records and should clear existing ones', () => {
+            const wrapped = Audit(new Order(), {history: true});
+
+            wrapped.status = 'paid';
+            wrapped.revert();
+
+            expect(wrapped.changes()).toEqual([]);
+            expect(wrapped.history()).toEqual([]);
+        });
+
+        it('should restore in-place array mutations without replacing the array', () => {
+            const order = new Order();
+            const items = order.items;
+            const wrapped = Audit(order);
+
+            wrapped.items.push('c');
+            wrapped.items.reverse();
+            wrapped.revert();
+
+            expect(order.items).toBe(items);
+            expect(order.items).toEqual(['a', 'b']);
+        });
+
+        it('should restore a reassigned array reference', () => {
+            const order = new Order();
+            const items = order.items;
+            const wrapped = Audit(order);
+
+            wrapped.items = ['x'];
+            wrapped.items.push('y');
+            wrapped.revert();
+
+            expect(order.items).toBe(items);
+        });
+
+        it('should restore Map entries and Set members', () => {
+            const order = new Order();
+            const wrapped = Audit(order);
+
+            wrapped.prices.set('a', 5);
+            wrapped.prices.set('b', 2);
+            wrapped.tags.delete('new');
+            wrapped.tags.add('sale');
+            wrapped.revert();
+
+            expect(Array.from(order.prices.entries())).toEqual([['a', 1]]);
+            expect(Array.from(order.tags)).toEqual(['new']);
+        });
+
+        it('should restore deep changes in reverse order', () => {
+            const order = new Order();
+            const original = order.shipping;
+            const wrapped = Audit(order, {deep: true});
+
+            wrapped.shipping.city = 'Hamburg';
+            wrapped.shipping = {city: 'Munich', zip: '80331'};
+            wrapped.shipping.zip = '80333';
+            wrapped.revert();
+
+            expect(order.shipping).toBe(original);
+            expect(order.shipping).toEqual({city: 'Berlin', zip: '10115'});
+        });
+
+        it('should replay the full journal in history mode', () => {
+            const order = new Order();
+            const original = order.shipping;
+            const wrapped = Audit(order, {deep: true, history: true});
+
+            wrapped.shipping = {city: 'Munich', zip: '80331'};
+            wrapped.shipping.city = 'Augsburg';
+            wrapped.shipping = original;
+            wrapped.shipping.city = 'Hamburg';
+            wrapped.revert();
+
+            expect(order.shipping).toBe(original);
+            expect(original.city).toBe('Berlin');
+        });
+
+        it('should keep tracking after a revert', () => {
+            const wrapped = Audit(new Order());
+
+            wrapped.status = 'paid';
+            wrapped.revert();
+            wrapped.status = 'cancelled';
+
+            expect(wrapped.changes()).toHaveLength(1);
+            expect(wrapped.changes()[0]).toMatchObject({oldValue: 'draft', newValue: 'cancelled'});
+        });
+    });
+
+    describe('revertField()', () => {
+        it('should restore only the given field and drop its records', () => {
+            const order = new Order();
+            const wrapped = Audit(order);
+
+            wrapped.status = 'paid';
+            wrapped.total = 42;
+            wrapped.revertField('status');
+
+            expect(order.status).toBe('draft');
+            expect(order.total).toBe(42);
+            expect(wrapped.changes().map(c => c.field)).toEqual(['total']);
+        });
+
+        it('should include changes nested below the field', () => {
+            const order = new Order();
+            const wrapped = Audit(order, {deep: true, history: true});
+
+            wrapped.shipping.city = 'Hamburg';
+            wrapped.prices.set('a', 3);
+            wrapped.revertField('shipping');
+
+            expect(order.shipping.city).toBe('Berlin');
+            expect(order.prices.get('a')).toBe(3);
+            expect(wrapped.changes().map(c => c.field)).toEqual(['prices[a]']);
+            expect(wrapped.history().map(c => [c.field, c.newValue])).toEqual([
+                ['shipping.city', 'Hamburg'],
+                ['prices[a]', 3],
+                ['shipping.city', 'Berlin']
+            ]);
+        });
+
+        it('should be a no-op for fields without changes', () => {
+            class Profile {
+                @AuditField()
+                name: string = 'Ann';
+            }
+
+            const profile = new Profile();
+            const wrapped = Audit(profile);
+            wrapped.revertField('name');
+
+            expect(profile.name).toBe('Ann');
+            expect(wrapped.changes()).toEqual([]);
+        });
+    });
+
+    describe('record paths', () => {
+        it('should expose structured paths on change records', () => {
+            const wrapped = Audit(new Order(), {deep: true});
+
+            wrapped.status = 'paid';
+            wrapped.shipping.city = 'Hamburg';
+            wrapped.prices.set('a', 2);
+            wrapped.items.push('c');
+
+            expect(wrapped.changes().map(c => c.path)).toEqual([
+                ['status'],
+                ['shipping', 'city'],
+                ['prices', 'a'],
+                ['items']
+            ]);
+        });
+    });
+});
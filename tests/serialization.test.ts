@@ -0,0 +1,127 @@
+import {
+    Audit,
+    AUDIT_REMOVED,
+    AuditField,
+    Auditable,
+    registerAuditSerializer,
+    serializeAuditValue,
+    serializeChanges,
+    unregisterAuditSerializer
+} from '../src';
+
+describe('Change Serialization', () => {
+    class Money {
+        constructor(public amount: number, public currency: string) {
+        }
+    }
+
+    describe('serializeAuditValue', () => {
+        it('should serialize built-in types into JSON-safe values', () => {
+            expect(serializeAuditValue(new Date('2024-01-02T03:04:05.000Z'))).toBe('2024-01-02T03:04:05.000Z');
+            expect(serializeAuditValue(BigInt(42))).toBe('42');
+            expect(serializeAuditValue(new Map([['a', 1]]))).toEqual({a: 1});
+            expect(serializeAuditValue(new Set(['x', 'y']))).toEqual(['x', 'y']);
+            expect(serializeAuditValue(Buffer.from('hi'))).toBe('aGk=');
+            expect(serializeAuditValue(undefined)).toBeNull();
+        });
+
+        it('should serialize the removal marker as null, also when nested', () => {
+            expect(serializeAuditValue(AUDIT_REMOVED)).toBeNull();
+            expect(serializeAuditValue({value: AUDIT_REMOVED, tag: Symbol('t')})).toEqual({value: null, tag: 'Symbol(t)'});
+        });
+
+        it('should serialize class instances as plain objects', () => {
+            expect(serializeAuditValue(new Money(10, 'EUR'))).toEqual({amount: 10, currency: 'EUR'});
+        });
+
+        it('should replace circular references with a placeholder', () => {
+            const node: { name: string; self?: unknown; shared: object[] } = {name: 'root', shared: []};
+            const shared = {id: 1};
+            node.self = node;
+            node.shared.push(shared, shared);
+
+            expect(serializeAuditValue(node)).toEqual({
+                name: 'root',
+                self: '[Circular]',
+                shared: [{id: 1}, {id: 1}]
+            });
+        });
+    });
+
+    describe('registerAuditSerializer', () => {
+        afterEach(() => {
+            unregisterAuditSerializer(Money);
+            unregisterAuditSerializer(Date);
+        });
+
+        it('should use registered serializers for a type and its subclasses', () => {
+            class TaxedMoney extends Money {
+            }
+
+            registerAuditSerializer(Money, money => `${money.amount} ${money.currency}`);
+
+            expect(serializeAuditValue(new TaxedMoney(5, 'USD'))).toBe('5 USD');
+            expect(serializeAuditValue({price: new Money(1, 'EUR')})).toEqual({price: '1 EUR'});
+        });
+
+        it('should let registered serializers override the built-ins', () => {
+            registerAuditSerializer(Date, date => date.getTime());
+
+            expect(serializeAuditValue(new Date(1000))).toBe(1000);
+
+            unregisterAuditSerializer(Date);
+            expect(serializeAuditValue(new Date(1000))).toBe('1970-01-01T00:00:01.000Z');
+        });
+    });
+
+    describe('serializeChanges', () => {
+        @Auditable()
+        class Invoice {
+            issuedAt = new Date('2024-01-01T00:00:00.000Z');
+            total = new Money(10, 'EUR');
+            note?: string | undefined = 'draft';
+
+            @AuditField({serialize: (value: unknown) => `card ending ${String(value).slice(-4)}`})
+            card = '4111111111111111';
+        }
+
+        it('should produce JSON-safe records', () => {
+            const wrapped = Audit(new Invoice());
+
+            wrapped.issuedAt = new Date('2024-02-01T00:00:00.000Z');
+            delete wrapped.note;
+
+            expect(serializeChanges(wrapped.changes())).toEqual([
+                expect.objectContaining({
+                    field: 'issuedAt',
+                    path: ['issuedAt'],
+                    oldValue: '2024-01-01T00:00:00.000Z',
+                    newValue: '2024-02-01T00:00:00.000Z'
+                }),
+                expect.objectContaining({field: 'note', oldValue: 'draft', newValue: null, removed: true})
+            ]);
+        });
+
+        it('should drop changes that serialize identically', () => {
+            const wrapped = Audit(new Invoice());
+
+            wrapped.issuedAt = new Date('2024-01-01T00:00:00.000Z');
+            wrapped.total = new Money(10, 'EUR');
+
+            expect(wrapped.changes()).toHaveLength(2);
+            expect(serializeChanges(wrapped.changes())).toEqual([]);
+        });
+
+        it('should apply field serializers when the target is given', () => {
+            const wrapped = Audit(new Invoice());
+
+            wrapped.card = '5500000000000004';
+
+            expect(serializeChanges(wrapped.changes(), wrapped)[0]).toMatchObject({
+                oldValue: 'card ending 1111',
+                newValue: 'card ending 0004'
+            });
+            expect(serializeChanges(wrapped.changes())[0]?.newValue).toBe('5500000000000004');
+        });
+    });
+});
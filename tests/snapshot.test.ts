@@ -0,0 +1,181 @@
+import {Audit, AUDIT_REMOVED, Auditable, AuditField, AuditIgnore} from '../src';
+
+describe('Snapshots', () => {
+    @Auditable()
+    class Saga {
+        step: number = 0;
+        payload = {orderId: 'o-1', lines: [1, 2]};
+        completedAt?: Date;
+
+        @AuditIgnore()
+        scratch: string = '';
+    }
+
+    describe('snapshot()', () => {
+        it('should capture tracked fields only', () => {
+            const wrapped = Audit(new Saga());
+
+            const snapshot = wrapped.snapshot();
+
+            expect(Object.keys(snapshot.values)).toEqual(['step', 'payload']);
+            expect(typeof snapshot.takenAt).toBe('number');
+        });
+
+        it('should be immutable and independent from the object', () => {
+            const saga = new Saga();
+            const wrapped = Audit(saga);
+
+            const snapshot = wrapped.snapshot();
+            saga.payload.lines.push(3);
+
+            expect(Object.isFrozen(snapshot)).toBe(true);
+            expect(Object.isFrozen(snapshot.values['payload'])).toBe(true);
+            expect(snapshot.values['payload']).toEqual({orderId: 'o-1', lines: [1, 2]});
+        });
+
+        it('should keep Map, Set and Date values immutable', () => {
+            class Account {
+                @AuditField()
+                perms = new Map([['a', '1']]);
+
+                @AuditField()
+                tags = new Set(['x']);
+
+                @AuditField()
+                openedAt = new Date(0);
+            }
+            const wrapped = Audit(new Account());
+
+            const snapshot = wrapped.snapshot();
+            const perms = snapshot.values['perms'] as Map<string, string>;
+            const tags = snapshot.values['tags'] as Set<string>;
+            const openedAt = snapshot.values['openedAt'] as Date;
+
+            expect(() => perms.set('b', '2')).toThrow(TypeError);
+            expect(() => perms.delete('a')).toThrow(TypeError);
+            expect(() => tags.add('y')).toThrow(TypeError);
+            expect(() => tags.clear()).toThrow(TypeError);
+            expect(() => openedAt.setTime(1)).toThrow(TypeError);
+            expect(perms).toEqual(new Map([['a', '1']]));
+            expect(tags).toEqual(new Set(['x']));
+            expect(openedAt.getTime()).toBe(0);
+        });
+
+        it('should restore mutable copies of Map values', () => {
+            class Account {
+                @AuditField()
+                perms = new Map([['a', '1']]);
+            }
+            const account = new Account();
+            const wrapped = Audit(account);
+
+            const snapshot = wrapped.snapshot();
+            wrapped.perms = new Map();
+            wrapped.restore(snapshot);
+            account.perms.set('b', '2');
+
+            expect(account.perms.size).toBe(2);
+            expect(wrapped.diffSince(snapshot)).toHaveLength(1);
+        });
+
+        it('should not touch the audit history', () => {
+            const wrapped = Audit(new Saga());
+
+            wrapped.step = 1;
+            wrapped.snapshot();
+
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+    });
+
+    describe('diffSince()', () => {
+        it('should report only what changed since the checkpoint', () => {
+            const wrapped = Audit(new Saga());
+
+            wrapped.step = 1;
+            const checkpoint = wrapped.snapshot();
+            wrapped.step = 2;
+            wrapped.payload.lines.push(3);
+            wrapped.scratch = 'ignored';
+
+            const diff = wrapped.diffSince(checkpoint);
+            expect(diff.map(c => c.field)).toEqual(['step', 'payload']);
+            expect(diff[0]).toMatchObject({oldValue: 1, newValue: 2});
+            expect(diff[1]).toMatchObject({
+                oldValue: {orderId: 'o-1', lines: [1, 2]},
+                newValue: {orderId: 'o-1', lines: [1, 2, 3]}
+            });
+        });
+
+        it('should ignore changes that were undone before the diff', () => {
+            const wrapped = Audit(new Saga());
+
+            const checkpoint = wrapped.snapshot();
+            wrapped.step = 5;
+            wrapped.step = 0;
+            wrapped.payload = {orderId: 'o-1', lines: [1, 2]};
+
+            expect(wrapped.diffSince(checkpoint)).toEqual([]);
+        });
+
+        it('should report fields added and removed since the checkpoint', () => {
+            const wrapped = Audit(new Saga());
+
+            const checkpoint = wrapped.snapshot();
+            wrapped.completedAt = new Date(0);
+            delete (wrapped as Partial<Saga>).step;
+
+            const diff = wrapped.diffSince(checkpoint);
+            expect(diff.find(c => c.field === 'step')).toMatchObject({oldValue: 0, newValue: AUDIT_REMOVED});
+            expect(diff.find(c => c.field === 'completedAt')).toMatchObject({oldValue: undefined, newValue: new Date(0)});
+        });
+
+        it('should stamp diff records with the snapshot time as first change time', () => {
+            const wrapped = Audit(new Saga());
+
+            const checkpoint = wrapped.snapshot();
+            wrapped.step = 3;
+
+            expect(wrapped.diffSince(checkpoint)[0]!.firstChangedAt).toBe(checkpoint.takenAt);
+        });
+    });
+
+    describe('restore()', () => {
+        it('should write snapshot values back to the object', () => {
+            const saga = new Saga();
+            const wrapped = Audit(saga);
+
+            const checkpoint = wrapped.snapshot();
+            wrapped.step = 7;
+            wrapped.payload.lines.length = 0;
+            wrapped.restore(checkpoint);
+
+            expect(saga.step).toBe(0);
+            expect(saga.payload).toEqual({orderId: 'o-1', lines: [1, 2]});
+            expect(wrapped.diffSince(checkpoint)).toEqual([]);
+        });
+
+        it('should record the restore as changes and keep earlier history', () => {
+            const wrapped = Audit(new Saga(), {history: true});
+
+            const checkpoint = wrapped.snapshot();
+            wrapped.step = 7;
+            wrapped.restore(checkpoint);
+
+            expect(wrapped.history().map(r => r.newValue)).toEqual([7, 0]);
+        });
+
+        it('should leave the restored values mutable and detached from the snapshot', () => {
+            const saga = new Saga();
+            const wrapped = Audit(saga);
+
+            const checkpoint = wrapped.snapshot();
+            wrapped.payload = {orderId: 'o-2', lines: []};
+            wrapped.restore(checkpoint);
+            saga.payload.lines.push(9);
+
+            expect(Object.isFrozen(saga.payload)).toBe(false);
+            expect(checkpoint.values['payload']).toEqual({orderId: 'o-1', lines: [1, 2]});
+        });
+    });
+});
@@ -0,0 +1,88 @@
+import {Audit, AuditField, setAuditClock} from '../src';
+import {ChangeTrackerImpl} from '../src/tracking';
+
+describe('Change Record Timestamps and Sequence Numbers', () => {
+    let now: number;
+
+    beforeEach(() => {
+        now = 1_000;
+        setAuditClock(() => now);
+    });
+
+    afterEach(() => {
+        setAuditClock();
+    });
+
+    class Account {
+        @AuditField()
+        email: string = 'a@example.com';
+
+        @AuditField()
+        plan: string = 'free';
+    }
+
+    it('should stamp each record with the injected clock', () => {
+        const tracker = new ChangeTrackerImpl();
+
+        tracker.trackChange('email', 'a', 'b');
+
+        expect(tracker.getChanges()[0]).toMatchObject({firstChangedAt: 1_000, lastChangedAt: 1_000});
+    });
+
+    it('should expose first and last change times on collapsed records', () => {
+        const tracker = new ChangeTrackerImpl({history: true});
+
+        tracker.trackChange('email', 'a', 'b');
+        now = 2_500;
+        tracker.trackChange('email', 'b', 'c');
+
+        expect(tracker.getChanges()[0]).toMatchObject({oldValue: 'a', newValue: 'c', firstChangedAt: 1_000, lastChangedAt: 2_500});
+        expect(tracker.getHistory().map(r => r.lastChangedAt)).toEqual([1_000, 2_500]);
+    });
+
+    it('should order changes across different audited objects', () => {
+        const first = Audit(new Account());
+        const second = Audit(new Account());
+
+        first.email = 'x@example.com';
+        second.email = 'y@example.com';
+        first.plan = 'pro';
+
+        const ordered = [...first.changes(), ...second.changes()].sort((a, b) => a.sequence - b.sequence);
+        expect(ordered.map(r => r.newValue)).toEqual(['x@example.com', 'y@example.com', 'pro']);
+    });
+
+    it('should take the sequence number of the latest change when collapsing', () => {
+        const wrapped = Audit(new Account());
+
+        wrapped.email = 'x@example.com';
+        wrapped.plan = 'pro';
+        wrapped.email = 'z@example.com';
+
+        const [email, plan] = wrapped.changes();
+        expect(email!.sequence).toBeGreaterThan(plan!.sequence);
+    });
+
+    it('should keep records frozen', () => {
+        const wrapped = Audit(new Account());
+
+        wrapped.email = 'x@example.com';
+        const record = wrapped.changes()[0]!;
+
+        expect(Object.isFrozen(record)).toBe(true);
+        expect(() => {
+            (record as { lastChangedAt: number }).lastChangedAt = 0;
+        }).toThrow();
+    });
+
+    it('should fall back to the system clock when the injected clock throws', () => {
+        setAuditClock(() => {
+            throw new Error('clock failure');
+        });
+        const tracker = new ChangeTrackerImpl();
+
+        tracker.trackChange('email', 'a', 'b');
+
+        expect(tracker.getChanges()[0]!.firstChangedAt).toBeGreaterThan(1_000);
+    });
+});
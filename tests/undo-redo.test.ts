@@ -0,0 +1,165 @@
+import {Audit, Auditable} from '../src';
+
+describe('Undo and Redo', () => {
+    @Auditable()
+    class FormModel {
+        title: string = 'Untitled';
+        priority: number = 1;
+        labels: string[] = [];
+    }
+
+    it('should not undo without history mode', () => {
+        const wrapped = Audit(new FormModel());
+
+        wrapped.title = 'Draft';
+
+        expect(wrapped.canUndo()).toBe(false);
+        expect(wrapped.undo()).toBe(false);
+        expect(wrapped.title).toBe('Draft');
+    });
+
+    it('should undo and redo single assignments one step at a time', () => {
+        const model = new FormModel();
+        const wrapped = Audit(model, {history: true});
+
+        wrapped.title = 'First';
+        wrapped.title = 'Second';
+
+        expect(wrapped.undo()).toBe(true);
+        expect(model.title).toBe('First');
+        expect(wrapped.undo()).toBe(true);
+        expect(model.title).toBe('Untitled');
+        expect(wrapped.canUndo()).toBe(false);
+
+        expect(wrapped.redo()).toBe(true);
+        expect(model.title).toBe('First');
+        expect(wrapped.redo()).toBe(true);
+        expect(model.title).toBe('Second');
+        expect(wrapped.canRedo()).toBe(false);
+        expect(wrapped.redo()).toBe(false);
+    });
+
+    it('should keep changes in sync with undo and redo', () => {
+        const wrapped = Audit(new FormModel(), {history: true});
+
+        wrapped.title = 'First';
+        wrapped.priority = 3;
+        wrapped.undo();
+
+        expect(wrapped.changes()).toHaveLength(1);
+        expect(wrapped.changes()[0]).toMatchObject({field: 'title', newValue: 'First'});
+
+        wrapped.redo();
+        expect(wrapped.changes().map(r => r.field)).toEqual(['title', 'priority']);
+    });
+
+    it('should append undo and redo to the history instead of removing changes', () => {
+        const wrapped = Audit(new FormModel(), {history: true});
+
+        wrapped.priority = 2;
+        wrapped.priority = 3;
+        wrapped.undo();
+
+        expect(wrapped.history().map(r => [r.oldValue, r.newValue])).toEqual([[1, 2], [2, 3], [3, 2]]);
+
+        wrapped.redo();
+
+        expect(wrapped.history().map(r => [r.oldValue, r.newValue])).toEqual([[1, 2], [2, 3], [3, 2], [2, 3]]);
+        expect(wrapped.changes()).toEqual([expect.objectContaining({oldValue: 1, newValue: 3})]);
+    });
+
+    it('should append every change of an undone batch in reverse order', () => {
+        const wrapped = Audit(new FormModel(), {history: true});
+
+        wrapped.batch(() => {
+            wrapped.title = 'Batched';
+            wrapped.priority = 5;
+        });
+        wrapped.undo();
+
+        expect(wrapped.history().slice(2).map(r => [r.field, r.newValue])).toEqual([
+            ['priority', 1],
+            ['title', 'Untitled']
+        ]);
+        expect(wrapped.changes()).toEqual([]);
+    });
+
+    it('should group batched assignments into one undoable step', () => {
+        const model = new FormModel();
+        const wrapped = Audit(model, {history: true});
+
+        wrapped.title = 'Kept';
+        const result = wrapped.batch(() => {
+            wrapped.title = 'Batched';
+            wrapped.priority = 5;
+            wrapped.labels.push('urgent');
+            return 'done';
+        });
+
+        expect(result).toBe('done');
+        wrapped.undo();
+
+        expect(model.title).toBe('Kept');
+        expect(model.priority).toBe(1);
+        expect(model.labels).toEqual([]);
+
+        wrapped.redo();
+        expect(model.title).toBe('Batched');
+        expect(model.labels).toEqual(['urgent']);
+    });
+
+    it('should treat nested batches as part of the outer step', () => {
+        const model = new FormModel();
+        const wrapped = Audit(model, {history: true});
+
+        wrapped.batch(() => {
+            wrapped.title = 'Outer';
+            wrapped.batch(() => {
+                wrapped.priority = 9;
+            });
+            wrapped.labels.push('x');
+        });
+        wrapped.undo();
+
+        expect(model).toMatchObject({title: 'Untitled', priority: 1, labels: []});
+        expect(wrapped.canUndo()).toBe(false);
+    });
+
+    it('should close the batch when the function throws', () => {
+        const model = new FormModel();
+        const wrapped = Audit(model, {history: true});
+
+        expect(() => wrapped.batch(() => {
+            wrapped.title = 'Partial';
+            throw new Error('validation failed');
+        })).toThrow('validation failed');
+        wrapped.priority = 2;
+        wrapped.undo();
+
+        expect(model.title).toBe('Partial');
+        expect(model.priority).toBe(1);
+    });
+
+    it('should clear the redo stack when a new change is made', () => {
+        const wrapped = Audit(new FormModel(), {history: true});
+
+        wrapped.title = 'First';
+        wrapped.undo();
+        wrapped.priority = 4;
+
+        expect(wrapped.canRedo()).toBe(false);
+    });
+
+    it('should undo array mutations in place', () => {
+        const model = new FormModel();
+        const labels = model.labels;
+        const wrapped = Audit(model, {history: true});
+
+        wrapped.labels.push('a');
+        wrapped.labels.push('b');
+        wrapped.undo();
+
+        expect(model.labels).toBe(labels);
+        expect(model.labels).toEqual(['a']);
+    });
+});
@@ -0,0 +1,225 @@
+import {Audit, AuditField, AuditSensitive, AuditVetoError, AUDIT_REMOVED} from '../src';
+
+describe('Change Vetoes', () => {
+    class Ticket {
+        @AuditField({
+            beforeChange: ({oldValue, newValue}) =>
+                oldValue !== 'closed' || newValue !== 'open' || 'closed tickets cannot be reopened'
+        })
+        status = 'open';
+
+        @AuditField()
+        priority = 1;
+
+        @AuditField()
+        assignee?: string = 'alice';
+
+        @AuditSensitive({strategy: 'mask'})
+        @AuditField({beforeChange: ({newValue}) => typeof newValue === 'string' && newValue.length >= 8})
+        pin = '00000000';
+    }
+
+    describe('field guards', () => {
+        it('should apply changes the guard accepts', () => {
+            const wrapped = Audit(new Ticket());
+
+            wrapped.status = 'closed';
+
+            expect(wrapped.status).toBe('closed');
+            expect(wrapped.changes()).toHaveLength(1);
+            expect(wrapped.rejectedChanges()).toEqual([]);
+        });
+
+        it('should throw an AuditVetoError and leave the field unchanged', () => {
+            const wrapped = Audit(new Ticket());
+            wrapped.status = 'closed';
+
+            let caught: unknown;
+            try {
+                wrapped.status = 'open';
+            } catch (error) {
+                caught = error;
+            }
+
+            expect(caught).toBeInstanceOf(AuditVetoError);
+            expect((caught as AuditVetoError).field).toBe('status');
+            expect((caught as AuditVetoError).reason).toBe('closed tickets cannot be reopened');
+            expect((caught as AuditVetoError).message)
+                .toBe('Change to "status" was rejected: closed tickets cannot be reopened');
+            expect(wrapped.status).toBe('closed');
+            expect(wrapped.changes().map(change => change.newValue)).toEqual(['closed']);
+        });
+
+        it('should record the veto as an attempted change', () => {
+            const wrapped = Audit(new Ticket(), {onVeto: 'ignore'});
+            wrapped.status = 'closed';
+
+            wrapped.status = 'open';
+
+            expect(wrapped.rejectedChanges()).toEqual([{
+                change: expect.objectContaining({field: 'status', oldValue: 'closed', newValue: 'open'}),
+                reason: 'closed tickets cannot be reopened'
+            }]);
+        });
+
+        it('should redact the values of rejected sensitive changes', () => {
+            const wrapped = Audit(new Ticket(), {onVeto: 'ignore'});
+
+            wrapped.pin = '1234';
+
+            expect(wrapped.pin).toBe('00000000');
+            expect(wrapped.rejectedChanges()[0]?.change.newValue).toBe('****');
+            expect(wrapped.rejectedChanges()[0]?.change.oldValue).toBe('****0000');
+        });
+
+        it('should not run guards for assignments of the same value', () => {
+            const beforeChange = jest.fn(() => false);
+            const wrapped = Audit(new Ticket(), {beforeChange});
+
+            wrapped.priority = 1;
+
+            expect(beforeChange).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Audit beforeChange option', () => {
+        it('should guard every tracked field of the wrapper', () => {
+            const wrapped = Audit(new Ticket(), {
+                beforeChange: ({field, newValue}) => field !== 'priority' || (newValue as number) <= 5
+            });
+
+            expect(() => {
+                wrapped.priority = 9;
+            }).toThrow(AuditVetoError);
+            wrapped.priority = 3;
+
+            expect(wrapped.priority).toBe(3);
+        });
+
+        it('should run after the field guard', () => {
+            const beforeChange = jest.fn(() => true);
+            const wrapped = Audit(new Ticket(), {beforeChange, onVeto: 'ignore'});
+            wrapped.status = 'closed';
+            beforeChange.mockClear();
+
+            wrapped.status = 'open';
+
+            expect(beforeChange).not.toHaveBeenCalled();
+        });
+
+        it('should silently refuse changes with onVeto ignore', () => {
+            const wrapped = Audit(new Ticket(), {beforeChange: () => false, onVeto: 'ignore'});
+
+            expect(() => {
+                wrapped.priority = 2;
+            }).not.toThrow();
+
+            expect(wrapped.priority).toBe(1);
+            expect(wrapped.hasChanges()).toBe(false);
+            expect(wrapped.rejectedChanges()[0]?.reason).toBeUndefined();
+        });
+
+        it('should guard deletions', () => {
+            const wrapped = Audit(new Ticket(), {
+                beforeChange: ({newValue}) => newValue !== AUDIT_REMOVED || 'fields cannot be removed'
+            });
+
+            expect(() => {
+                delete wrapped.assignee;
+            }).toThrow('Change to "assignee" was rejected: fields cannot be removed');
+            expect(wrapped.assignee).toBe('alice');
+        });
+
+        it('should reject changes when a guard throws', () => {
+            const wrapped = Audit(new Ticket(), {
+                beforeChange: () => {
+                    throw new Error('rule engine unavailable');
+                },
+                onVeto: 'ignore'
+            });
+
+            wrapped.priority = 2;
+
+            expect(wrapped.priority).toBe(1);
+            expect(wrapped.rejectedChanges()[0]?.reason).toBe('rule engine unavailable');
+        });
+
+        it('should clear rejected changes on resetAudit', () => {
+            const wrapped = Audit(new Ticket(), {beforeChange: () => false, onVeto: 'ignore'});
+            wrapped.priority = 2;
+
+            wrapped.resetAudit?.();
+
+            expect(wrapped.rejectedChanges()).toEqual([]);
+        });
+    });
+
+    describe('nested mutations', () => {
+        class Project {
+            @AuditField({beforeChange: ({newValue}) => (newValue as string[]).length <= 2 || 'too many tags'})
+            tags = ['a'];
+
+            @AuditField()
+            roles = new Map([['alice', 'owner']]);
+
+            @AuditField()
+            members = new Set(['alice']);
+
+            @AuditField({deep: true})
+            address = {city: 'Paris'};
+        }
+
+        it('should run the field guard before array mutations and undo rejected ones', () => {
+            const wrapped = Audit(new Project());
+            wrapped.tags.push('b');
+
+            expect(() => wrapped.tags.push('c')).toThrow('Change to "tags" was rejected: too many tags');
+            expect(wrapped.tags).toEqual(['a', 'b']);
+            expect(wrapped.changes()).toHaveLength(1);
+        });
+
+        it('should pass nested changes to the guard with their path', () => {
+            const beforeChange = jest.fn(() => true);
+            const wrapped = Audit(new Project(), {beforeChange});
+
+            wrapped.roles.set('bob', 'viewer');
+            wrapped.address.city = 'Lyon';
+
+            expect(beforeChange).toHaveBeenCalledWith(
+                {field: 'roles[bob]', oldValue: undefined, newValue: 'viewer', path: ['roles', 'bob']});
+            expect(beforeChange).toHaveBeenCalledWith(
+                {field: 'address.city', oldValue: 'Paris', newValue: 'Lyon', path: ['address', 'city']});
+        });
+
+        it('should refuse rejected Map, Set and deep object mutations', () => {
+            const project = new Project();
+            const wrapped = Audit(project, {beforeChange: () => false, onVeto: 'ignore'});
+
+            wrapped.roles.set('alice', 'viewer');
+            wrapped.members.add('bob');
+            wrapped.members.delete('alice');
+            delete (wrapped.address as Partial<Project['address']>).city;
+
+            expect(project.roles.get('alice')).toBe('owner');
+            expect(project.members).toEqual(new Set(['alice']));
+            expect(project.address).toEqual({city: 'Paris'});
+            expect(wrapped.hasChanges()).toBe(false);
+            expect(wrapped.rejectedChanges().map(rejected => rejected.change.field))
+                .toEqual(['roles[alice]', 'members[bob]', 'members[alice]', 'address.city']);
+        });
+
+        it('should only clear a collection when every removal is allowed', () => {
+            const project = new Project();
+            project.roles.set('bob', 'viewer');
+            const wrapped = Audit(project, {
+                beforeChange: ({path}) => path[1] !== 'alice' || 'owners cannot be removed',
+                onVeto: 'ignore'
+            });
+
+            wrapped.roles.clear();
+
+            expect(project.roles.size).toBe(2);
+            expect(wrapped.rejectedChanges()[0]?.change.path).toEqual(['roles', 'alice']);
+        });
+    });
+});